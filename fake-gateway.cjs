@@ -0,0 +1,35 @@
+/**
+ * Local fake OpenCDP gateway for integration testing.
+ *
+ * Usage:
+ *   npm run fake-gateway
+ *
+ * Environment:
+ *   PORT         port to listen on (default: 4010)
+ *   CDP_API_KEY  when set, requests with a different Authorization header are rejected with 401
+ */
+
+const { FakeGateway } = require('./dist/cjs/index.js');
+
+async function main() {
+  const gateway = new FakeGateway({
+    port: Number(process.env.PORT ?? 4010),
+    apiKey: process.env.CDP_API_KEY,
+  });
+  const url = await gateway.start();
+  console.log(`Fake OpenCDP gateway listening on ${url}`);
+  console.log('Point cdpEndpoint (or cdpFallbackEndpoints) at this URL. Press Ctrl+C to stop.');
+
+  const shutdown = async () => {
+    console.log(`\nReceived ${gateway.received.length} request(s). Stopping.`);
+    await gateway.stop();
+    process.exit(0);
+  };
+  process.on('SIGINT', shutdown);
+  process.on('SIGTERM', shutdown);
+}
+
+main().catch((error) => {
+  console.error('Failed to start the fake gateway:', error?.message ?? error);
+  process.exit(1);
+});
@@ -0,0 +1,149 @@
+import { CDPError } from "./errors";
+import { BatchConfig, Logger } from "./types";
+
+export const DEFAULT_MAX_BATCH_SIZE = 100;
+export const DEFAULT_MAX_BATCH_BYTES = 512 * 1024;
+export const DEFAULT_FLUSH_INTERVAL_MS = 1000;
+
+export type BatchItem =
+  | {
+    type: "identify";
+    identifier: string;
+    properties: Record<string, any>;
+    idempotencyKey: string;
+  }
+  | {
+    type: "track";
+    identifier: string;
+    eventName: string;
+    properties: Record<string, any>;
+    idempotencyKey: string;
+  };
+
+interface PendingItem {
+  item: BatchItem;
+  bytes: number;
+  resolve: (queued: boolean) => void;
+  reject: (error: unknown) => void;
+}
+
+/**
+ * Buffers identify/track calls in memory and hands them to `send` in batches.
+ * A batch is flushed when it reaches `maxBatchSize` items, when adding the next
+ * item would exceed `maxBatchBytes`, or `flushIntervalMs` after the first item
+ * was buffered - whichever comes first.
+ *
+ * Every enqueued item gets its own promise which settles with the outcome of the
+ * batch it was sent in: true when the batch was written to the offline queue instead
+ * of being delivered.
+ */
+export class BatchQueue {
+  private readonly maxBatchSize: number;
+  private readonly maxBatchBytes: number;
+  private readonly flushIntervalMs: number;
+  private buffer: PendingItem[] = [];
+  private bufferBytes = 0;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private closed = false;
+  private readonly inFlight = new Set<Promise<void>>();
+
+  constructor(
+    private readonly send: (items: BatchItem[]) => Promise<boolean>,
+    config: BatchConfig,
+    private readonly logger: Logger,
+    private readonly debug = false
+  ) {
+    this.maxBatchSize = Math.max(1, config.maxBatchSize || DEFAULT_MAX_BATCH_SIZE);
+    this.maxBatchBytes = Math.max(1, config.maxBatchBytes || DEFAULT_MAX_BATCH_BYTES);
+    this.flushIntervalMs = Math.max(0, config.flushIntervalMs ?? DEFAULT_FLUSH_INTERVAL_MS);
+  }
+
+  /**
+   * Number of items currently buffered and not yet handed to a flush
+   */
+  get size(): number {
+    return this.buffer.length;
+  }
+
+  enqueue(item: BatchItem): Promise<boolean> {
+    if (this.closed) {
+      return Promise.reject(new CDPError("Batching queue is closed"));
+    }
+
+    const bytes = Buffer.byteLength(JSON.stringify(item), "utf8");
+
+    // Flush what we have first so the new item never pushes a batch over the byte cap
+    if (this.buffer.length > 0 && this.bufferBytes + bytes > this.maxBatchBytes) {
+      this.flushBuffer();
+    }
+
+    const delivery = new Promise<boolean>((resolve, reject) => {
+      this.buffer.push({ item, bytes, resolve, reject });
+    });
+    this.bufferBytes += bytes;
+
+    if (this.buffer.length >= this.maxBatchSize || this.bufferBytes >= this.maxBatchBytes) {
+      this.flushBuffer();
+    } else if (!this.timer) {
+      this.timer = setTimeout(() => this.flushBuffer(), this.flushIntervalMs);
+      this.timer.unref?.();
+    }
+
+    return delivery;
+  }
+
+  /**
+   * Sends everything currently buffered and waits for all in-flight batches to settle.
+   * Never rejects - failures are reported through each item's own promise.
+   */
+  async flush(): Promise<void> {
+    this.flushBuffer();
+    await Promise.all(Array.from(this.inFlight));
+  }
+
+  /**
+   * Stops the flush timer and rejects every buffered item with a CDPError, so no caller is left
+   * waiting. Batches already in flight still settle. Call `flush()` first to deliver the buffer.
+   */
+  close(): void {
+    this.closed = true;
+    this.clearTimer();
+
+    const pending = this.buffer;
+    this.buffer = [];
+    this.bufferBytes = 0;
+    if (pending.length > 0 && this.debug) {
+      this.logger.debug(`[CDP] Batching queue closed with ${pending.length} unsent item(s)`);
+    }
+    pending.forEach((item) => item.reject(new CDPError("Batching queue closed before the call was sent")));
+  }
+
+  private flushBuffer(): void {
+    this.clearTimer();
+    if (this.buffer.length === 0) {
+      return;
+    }
+
+    const batch = this.buffer;
+    this.buffer = [];
+    this.bufferBytes = 0;
+
+    if (this.debug) {
+      this.logger.debug(`[CDP] Flushing batch of ${batch.length} item(s)`);
+    }
+
+    const sending = this.send(batch.map((pending) => pending.item)).then(
+      (queued) => batch.forEach((pending) => pending.resolve(queued)),
+      (error) => batch.forEach((pending) => pending.reject(error))
+    );
+    this.inFlight.add(sending);
+    sending.then(() => this.inFlight.delete(sending));
+  }
+
+  private clearTimer(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+}
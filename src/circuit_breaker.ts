@@ -0,0 +1,149 @@
+import { CircuitBreakerConfig, CircuitState, GatewayStatus } from "./types";
+
+export const DEFAULT_FAILURE_THRESHOLD = 5;
+export const DEFAULT_COOLDOWN_MS = 30000;
+export const DEFAULT_HALF_OPEN_MAX_REQUESTS = 1;
+
+/**
+ * Tracks the health of a single gateway base URL.
+ *
+ * - closed: requests flow normally. `failureThreshold` consecutive retryable failures open the circuit.
+ * - open: the gateway gets no requests until `cooldownMs` has passed.
+ * - half_open: up to `halfOpenMaxRequests` probe requests are let through. A success closes
+ *   the circuit, a failure opens it again for another cool-down.
+ */
+export class CircuitBreaker {
+  private state: CircuitState = "closed";
+  private consecutiveFailures = 0;
+  private openedAt?: number;
+  private lastFailureAt?: number;
+  private lastSuccessAt?: number;
+  private probesInFlight = 0;
+  private readonly enabled: boolean;
+  private readonly failureThreshold: number;
+  private readonly cooldownMs: number;
+  private readonly halfOpenMaxRequests: number;
+
+  constructor(
+    readonly url: string,
+    config: CircuitBreakerConfig = {},
+    private readonly now: () => number = Date.now
+  ) {
+    this.enabled = config.enabled !== false;
+    this.failureThreshold = Math.max(1, config.failureThreshold || DEFAULT_FAILURE_THRESHOLD);
+    this.cooldownMs = Math.max(0, config.cooldownMs ?? DEFAULT_COOLDOWN_MS);
+    this.halfOpenMaxRequests = Math.max(1, config.halfOpenMaxRequests || DEFAULT_HALF_OPEN_MAX_REQUESTS);
+  }
+
+  /**
+   * True when a request may be sent without waiting for the circuit to recover
+   */
+  isAvailable(): boolean {
+    switch (this.currentState()) {
+      case "closed":
+        return true;
+      case "half_open":
+        return this.probesInFlight < this.halfOpenMaxRequests;
+      default:
+        return false;
+    }
+  }
+
+  /**
+   * Must be called right before a request is sent to this gateway
+   */
+  onAttempt(): void {
+    if (this.currentState() === "half_open") {
+      this.state = "half_open";
+      this.probesInFlight++;
+    }
+  }
+
+  onSuccess(): void {
+    this.releaseProbe();
+    this.state = "closed";
+    this.consecutiveFailures = 0;
+    this.openedAt = undefined;
+    this.lastSuccessAt = this.now();
+  }
+
+  onFailure(): void {
+    const wasProbing = this.currentState() === "half_open";
+    this.releaseProbe();
+    this.consecutiveFailures++;
+    this.lastFailureAt = this.now();
+    if (!this.enabled) {
+      return;
+    }
+    if (wasProbing || this.consecutiveFailures >= this.failureThreshold) {
+      this.state = "open";
+      this.openedAt = this.lastFailureAt;
+    }
+  }
+
+  status(): GatewayStatus {
+    const state = this.currentState();
+    return {
+      url: this.url,
+      state,
+      consecutiveFailures: this.consecutiveFailures,
+      lastFailureAt: this.lastFailureAt,
+      lastSuccessAt: this.lastSuccessAt,
+      openedAt: this.openedAt,
+      nextAttemptAt: state === "open" ? this.openedAt! + this.cooldownMs : undefined,
+      active: false,
+    };
+  }
+
+  /**
+   * Time at which an open circuit lets a probe through again (0 when not open)
+   */
+  get reopensAt(): number {
+    return this.state === "open" ? this.openedAt! + this.cooldownMs : 0;
+  }
+
+  private currentState(): CircuitState {
+    if (this.state === "open" && this.now() - this.openedAt! >= this.cooldownMs) {
+      return "half_open";
+    }
+    return this.state;
+  }
+
+  private releaseProbe(): void {
+    if (this.probesInFlight > 0) {
+      this.probesInFlight--;
+    }
+  }
+}
+
+/**
+ * Gateways the next request may be sent to, in their configured order: every closed circuit plus
+ * at most one half-open gateway with a free probe slot. Open circuits are left out.
+ */
+export function orderByHealth(breakers: CircuitBreaker[]): CircuitBreaker[] {
+  let probing = false;
+  return breakers.filter((breaker) => {
+    if (!breaker.isAvailable()) {
+      return false;
+    }
+    if (breaker.status().state === "half_open") {
+      if (probing) {
+        return false;
+      }
+      probing = true;
+    }
+    return true;
+  });
+}
+
+/**
+ * Every gateway for reporting: the ones `orderByHealth` would use first, then the rest,
+ * soonest to recover first.
+ */
+export function rankByHealth(breakers: CircuitBreaker[]): CircuitBreaker[] {
+  const usable = orderByHealth(breakers);
+  const rest = breakers
+    .filter((breaker) => !usable.includes(breaker))
+    .sort((a, b) => a.reopensAt - b.reopensAt);
+  return usable.concat(rest);
+}
@@ -1,19 +1,46 @@
-import { beforeEach, describe, expect, it, jest } from '@jest/globals';
+import { afterEach, beforeEach, describe, expect, it, jest } from '@jest/globals';
+import { createHash } from 'crypto';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
 import axios from 'axios';
 import { TrackClient } from 'customerio-node';
 import { CDPClient } from './client';
 import { DEFAULT_PRIMARY_BASE_URL, resolveAllBaseUrls } from './gateway_urls';
-import { SendEmailRequest } from './types';
+import {
+    CDPAuthError,
+    CDPError,
+    CDPNetworkError,
+    CDPRateLimitError,
+    CDPServerError,
+    CDPTrackingPlanError,
+    CDPValidationError,
+    classifyError,
+    toCDPError
+} from './errors';
+import { computeBackoffDelay, parseRetryAfter, resolveRetryPolicy } from './retry';
+import { CDPConfig, SendEmailRequest } from './types';
 
 // Helper function to create SendEmailRequest instances
 function createEmailRequest(opts: any): SendEmailRequest {
     return new SendEmailRequest(opts);
 }
 
+// Request config expected for POSTs: the base URL plus a generated idempotency key
+function withIdempotencyKey(baseURL: string, idempotencyKey?: string) {
+    return { baseURL, headers: { 'Idempotency-Key': idempotencyKey ?? expect.any(String) } };
+}
+
+// Error axios rejects with when a request was sent but no response came back
+function networkError(message = 'Network Error') {
+    return Object.assign(new Error(message), { code: 'ERR_NETWORK', request: {} });
+}
+
 // Mock axios.create to return a mocked instance
 const mockAxiosInstance = {
     get: jest.fn() as jest.MockedFunction<any>,
     post: jest.fn() as jest.MockedFunction<any>,
+    defaults: {},
 };
 
 jest.mock('axios', () => ({
@@ -26,12 +53,26 @@ jest.mock('customerio-node', () => {
             identify: jest.fn().mockImplementation(() => Promise.resolve({})),
             track: jest.fn().mockImplementation(() => Promise.resolve({})),
             addDevice: jest.fn().mockImplementation(() => Promise.resolve({})),
+            suppress: jest.fn().mockImplementation(() => Promise.resolve({})),
+            unsuppress: jest.fn().mockImplementation(() => Promise.resolve({})),
+            mergeCustomers: jest.fn().mockImplementation(() => Promise.resolve({})),
+            deleteDevice: jest.fn().mockImplementation(() => Promise.resolve({})),
+            trackAnonymous: jest.fn().mockImplementation(() => Promise.resolve({})),
+            request: { post: jest.fn().mockImplementation(() => Promise.resolve({})) },
+            trackRoot: 'https://track.customer.io/api/v1',
         })),
+        IdentifierType: { Id: 'id', Email: 'email', CioId: 'cio_id' },
         RegionUS: undefined,
         RegionEU: undefined
     };
 });
 
+// Customer.io client created by the most recently constructed CDPClient
+function latestCioInstance(): jest.Mocked<TrackClient> {
+    const { results } = (TrackClient as unknown as jest.Mock).mock;
+    return results[results.length - 1].value as jest.Mocked<TrackClient>;
+}
+
 // Mock http and https modules
 jest.mock('http', () => ({
     Agent: jest.fn().mockImplementation(() => ({})),
@@ -50,6 +91,36 @@ describe('gateway_urls', () => {
     });
 });
 
+describe('retry policy', () => {
+    it('merges per-operation overrides over the top-level policy', () => {
+        const policy = resolveRetryPolicy(
+            { maxAttempts: 4, baseDelayMs: 100, operations: { sendEmail: { maxAttempts: 2 } } },
+            'sendEmail'
+        );
+        expect(policy).toMatchObject({ maxAttempts: 2, baseDelayMs: 100, maxDelayMs: 10000, jitter: true });
+        expect(resolveRetryPolicy(undefined, 'track').maxAttempts).toBe(1);
+    });
+
+    it('caps exponential backoff and applies full jitter', () => {
+        const policy = resolveRetryPolicy({ baseDelayMs: 100, maxDelayMs: 1000, jitter: false }, 'track');
+        expect(computeBackoffDelay(1, policy)).toBe(100);
+        expect(computeBackoffDelay(3, policy)).toBe(400);
+        expect(computeBackoffDelay(10, policy)).toBe(1000);
+
+        const jittered = { ...policy, jitter: true };
+        expect(computeBackoffDelay(3, jittered, () => 0.5)).toBe(200);
+        expect(computeBackoffDelay(3, jittered, () => 0)).toBe(0);
+    });
+
+    it('parses Retry-After as seconds or an HTTP date', () => {
+        const now = Date.parse('2025-01-01T00:00:00Z');
+        expect(parseRetryAfter('3', now)).toBe(3000);
+        expect(parseRetryAfter('Wed, 01 Jan 2025 00:00:05 GMT', now)).toBe(5000);
+        expect(parseRetryAfter('soon', now)).toBeUndefined();
+        expect(parseRetryAfter(undefined, now)).toBeUndefined();
+    });
+});
+
 describe('CDPClient', () => {
     let mockedAxios: jest.Mocked<typeof axios>;
     let mockedTrackClient: jest.Mock;
@@ -90,7 +161,7 @@ describe('CDPClient', () => {
                     properties: testProperties
                 }
             ,
-                { baseURL: 'https://api.opencdp.io/gateway/data-gateway' }
+                withIdempotencyKey('https://api.opencdp.io/gateway/data-gateway')
             );
 
             expect(mockedTrackClient).toHaveBeenCalledWith('site-id', 'cio-api-key', { region: undefined });
@@ -139,7 +210,7 @@ describe('CDPClient', () => {
                     properties: { name: 'Test User', email: 'test@example.com' }
                 }
             ,
-                { baseURL: 'https://api.opencdp.io/gateway/data-gateway' }
+                withIdempotencyKey('https://api.opencdp.io/gateway/data-gateway')
             );
 
             expect(mockedTrackClient).not.toHaveBeenCalled();
@@ -171,7 +242,7 @@ describe('CDPClient', () => {
                     properties: { amount: 100, currency: 'USD' }
                 }
             ,
-                { baseURL: 'https://api.opencdp.io/gateway/data-gateway' }
+                withIdempotencyKey('https://api.opencdp.io/gateway/data-gateway')
             );
 
             expect(mockedTrackClient).toHaveBeenCalledWith('site-id', 'cio-api-key', { region: undefined });
@@ -259,7 +330,7 @@ describe('CDPClient', () => {
                     }
                 }
             ,
-                { baseURL: 'https://api.opencdp.io/gateway/data-gateway' }
+                withIdempotencyKey('https://api.opencdp.io/gateway/data-gateway')
             );
             expect(mockedTrackClient).toHaveBeenCalledWith('site-id', 'cio-api-key', { region: undefined });
         });
@@ -298,9 +369,9 @@ describe('CDPClient', () => {
                     body: 'This is a test email'
                 }
             ,
-                { baseURL: 'https://api.opencdp.io/gateway/data-gateway' }
+                withIdempotencyKey('https://api.opencdp.io/gateway/data-gateway')
             );
-            expect(result).toEqual({ messageId: 'email-123', status: 'sent' });
+            expect(result).toEqual({ messageId: 'email-123', status: 'sent', idempotencyKey: expect.any(String) });
         });
 
         it('should send template-based email data to OpenCDP with full parameters', async () => {
@@ -353,9 +424,9 @@ describe('CDPClient', () => {
                     disable_css_preprocessing: false
                 }
             ,
-                { baseURL: 'https://api.opencdp.io/gateway/data-gateway' }
+                withIdempotencyKey('https://api.opencdp.io/gateway/data-gateway')
             );
-            expect(result).toEqual({ messageId: 'email-456', status: 'sent' });
+            expect(result).toEqual({ messageId: 'email-456', status: 'sent', idempotencyKey: expect.any(String) });
         });
 
         it('should send raw email data to OpenCDP without template', async () => {
@@ -396,9 +467,9 @@ describe('CDPClient', () => {
                     preheader: 'Email preview text'
                 }
             ,
-                { baseURL: 'https://api.opencdp.io/gateway/data-gateway' }
+                withIdempotencyKey('https://api.opencdp.io/gateway/data-gateway')
             );
-            expect(result).toEqual({ messageId: 'email-789', status: 'sent' });
+            expect(result).toEqual({ messageId: 'email-789', status: 'sent', idempotencyKey: expect.any(String) });
         });
 
         it('should raise validation error when to email is not provided', async () => {
@@ -763,9 +834,9 @@ describe('CDPClient', () => {
                     body: 'Thank you for joining us!'
                 }
             ,
-                { baseURL: 'https://api.opencdp.io/gateway/data-gateway' }
+                withIdempotencyKey('https://api.opencdp.io/gateway/data-gateway')
             );
-            expect(result).toEqual({ messageId: 'push-123', status: 'sent' });
+            expect(result).toEqual({ messageId: 'push-123', status: 'sent', idempotencyKey: expect.any(String) });
         });
 
         it('should send push notification data to OpenCDP with full parameters', async () => {
@@ -812,9 +883,9 @@ describe('CDPClient', () => {
                     }
                 }
             ,
-                { baseURL: 'https://api.opencdp.io/gateway/data-gateway' }
+                withIdempotencyKey('https://api.opencdp.io/gateway/data-gateway')
             );
-            expect(result).toEqual({ messageId: 'push-456', status: 'sent' });
+            expect(result).toEqual({ messageId: 'push-456', status: 'sent', idempotencyKey: expect.any(String) });
         });
 
         it('should send push notification with email identifier', async () => {
@@ -847,9 +918,9 @@ describe('CDPClient', () => {
                     body: 'Get 20% off your next purchase'
                 }
             ,
-                { baseURL: 'https://api.opencdp.io/gateway/data-gateway' }
+                withIdempotencyKey('https://api.opencdp.io/gateway/data-gateway')
             );
-            expect(result).toEqual({ messageId: 'push-789', status: 'sent' });
+            expect(result).toEqual({ messageId: 'push-789', status: 'sent', idempotencyKey: expect.any(String) });
         });
 
         it('should raise validation error when identifiers is not provided', async () => {
@@ -988,9 +1059,9 @@ describe('CDPClient', () => {
                     }
                 }
             ,
-                { baseURL: 'https://api.opencdp.io/gateway/data-gateway' }
+                withIdempotencyKey('https://api.opencdp.io/gateway/data-gateway')
             );
-            expect(result).toEqual({ messageId: 'sms-123', status: 'sent' });
+            expect(result).toEqual({ messageId: 'sms-123', status: 'sent', idempotencyKey: expect.any(String) });
         });
 
         it('should send template-based SMS with numeric transactional_message_id', async () => {
@@ -1024,9 +1095,9 @@ describe('CDPClient', () => {
                     }
                 }
             ,
-                { baseURL: 'https://api.opencdp.io/gateway/data-gateway' }
+                withIdempotencyKey('https://api.opencdp.io/gateway/data-gateway')
             );
-            expect(result).toEqual({ messageId: 'sms-456', status: 'sent' });
+            expect(result).toEqual({ messageId: 'sms-456', status: 'sent', idempotencyKey: expect.any(String) });
         });
 
         it('should send template-based SMS with phone number override', async () => {
@@ -1064,9 +1135,9 @@ describe('CDPClient', () => {
                     }
                 }
             ,
-                { baseURL: 'https://api.opencdp.io/gateway/data-gateway' }
+                withIdempotencyKey('https://api.opencdp.io/gateway/data-gateway')
             );
-            expect(result).toEqual({ messageId: 'sms-789', status: 'sent' });
+            expect(result).toEqual({ messageId: 'sms-789', status: 'sent', idempotencyKey: expect.any(String) });
         });
 
         it('should send raw SMS successfully with phone number', async () => {
@@ -1096,9 +1167,9 @@ describe('CDPClient', () => {
                     body: 'Your verification code is 123456. Valid for 10 minutes.'
                 }
             ,
-                { baseURL: 'https://api.opencdp.io/gateway/data-gateway' }
+                withIdempotencyKey('https://api.opencdp.io/gateway/data-gateway')
             );
-            expect(result).toEqual({ messageId: 'sms-raw-1', status: 'sent' });
+            expect(result).toEqual({ messageId: 'sms-raw-1', status: 'sent', idempotencyKey: expect.any(String) });
         });
 
         it('should send raw SMS successfully without phone number (looked up from profile)', async () => {
@@ -1126,9 +1197,9 @@ describe('CDPClient', () => {
                     body: 'Your verification code is 123456. Valid for 10 minutes.'
                 }
             ,
-                { baseURL: 'https://api.opencdp.io/gateway/data-gateway' }
+                withIdempotencyKey('https://api.opencdp.io/gateway/data-gateway')
             );
-            expect(result).toEqual({ messageId: 'sms-raw-2', status: 'sent' });
+            expect(result).toEqual({ messageId: 'sms-raw-2', status: 'sent', idempotencyKey: expect.any(String) });
         });
 
         it('should send SMS with email identifier', async () => {
@@ -1156,9 +1227,9 @@ describe('CDPClient', () => {
                     transactional_message_id: 'WELCOME_SMS'
                 }
             ,
-                { baseURL: 'https://api.opencdp.io/gateway/data-gateway' }
+                withIdempotencyKey('https://api.opencdp.io/gateway/data-gateway')
             );
-            expect(result).toEqual({ messageId: 'sms-email', status: 'sent' });
+            expect(result).toEqual({ messageId: 'sms-email', status: 'sent', idempotencyKey: expect.any(String) });
         });
 
         it('should send SMS with cdp_id identifier', async () => {
@@ -1186,9 +1257,9 @@ describe('CDPClient', () => {
                     transactional_message_id: 'WELCOME_SMS'
                 }
             ,
-                { baseURL: 'https://api.opencdp.io/gateway/data-gateway' }
+                withIdempotencyKey('https://api.opencdp.io/gateway/data-gateway')
             );
-            expect(result).toEqual({ messageId: 'sms-cdp', status: 'sent' });
+            expect(result).toEqual({ messageId: 'sms-cdp', status: 'sent', idempotencyKey: expect.any(String) });
         });
 
         it('should clean payload by removing undefined values', async () => {
@@ -1220,7 +1291,7 @@ describe('CDPClient', () => {
                     transactional_message_id: 'TEST'
                 }
             ,
-                { baseURL: 'https://api.opencdp.io/gateway/data-gateway' }
+                withIdempotencyKey('https://api.opencdp.io/gateway/data-gateway')
             );
         });
 
@@ -1511,10 +1582,12 @@ describe('CDPClient', () => {
                 await client.sendSms(smsRequest);
                 expect(true).toBe(false); // Should not reach here
             } catch (error: any) {
-                expect(error.name).toBe('CDPSmsError');
-                expect(error.code).toBe('SMS_SEND_FAILED');
+                expect(error).toBeInstanceOf(CDPRateLimitError);
+                expect(error.name).toBe('CDPRateLimitError');
+                expect(error.code).toBe('RATE_LIMITED');
                 expect(error.status).toBe(429);
-                expect(error.summary).toBeDefined();
+                expect(error.operation).toBe('sendSms');
+                expect(error.gatewayUrl).toBe('https://api.opencdp.io/gateway/data-gateway');
                 expect(error.message).toBe('Rate limit exceeded');
             }
         });
@@ -1595,9 +1668,2030 @@ describe('CDPClient', () => {
                     }
                 }
             ,
-                { baseURL: 'https://api.opencdp.io/gateway/data-gateway' }
+                withIdempotencyKey('https://api.opencdp.io/gateway/data-gateway')
+            );
+            expect(result).toEqual({ messageId: 'sms-override', status: 'sent', idempotencyKey: expect.any(String) });
+        });
+    });
+
+    describe('batching', () => {
+        it('should send buffered identify and track calls as one batch once maxBatchSize is reached', async () => {
+            const client = new CDPClient({
+                cdpApiKey: 'test-api-key',
+                cdpFallbackEndpoints: [], failOnException: true,
+                batching: { enabled: true, maxBatchSize: 2, flushIntervalMs: 60000 }
+            });
+
+            mockAxiosInstance.post.mockResolvedValue({ status: 200 });
+
+            await Promise.all([
+                client.identify('user-123', { plan: 'pro' }),
+                client.track('user-123', 'purchase', { amount: 100 })
+            ]);
+
+            expect(mockAxiosInstance.post).toHaveBeenCalledTimes(1);
+            expect(mockAxiosInstance.post).toHaveBeenCalledWith(
+                '/v1/persons/batch',
+                {
+                    batch: [
+                        { type: 'identify', identifier: 'user-123', properties: { plan: 'pro' }, idempotencyKey: expect.any(String) },
+                        { type: 'track', identifier: 'user-123', eventName: 'purchase', properties: { amount: 100 }, idempotencyKey: expect.any(String) }
+                    ]
+                },
+                withIdempotencyKey('https://api.opencdp.io/gateway/data-gateway')
+            );
+        });
+
+        it('should flush a batch when maxBatchBytes would be exceeded', async () => {
+            const client = new CDPClient({
+                cdpApiKey: 'test-api-key',
+                cdpFallbackEndpoints: [], failOnException: true,
+                batching: { enabled: true, maxBatchSize: 100, maxBatchBytes: 120, flushIntervalMs: 60000 }
+            });
+
+            mockAxiosInstance.post.mockResolvedValue({ status: 200 });
+
+            const first = client.track('user-1', 'viewed', { page: 'home' });
+            const second = client.track('user-2', 'viewed', { page: 'pricing' });
+            await first;
+            await client.flush();
+            await second;
+
+            expect(mockAxiosInstance.post).toHaveBeenCalledTimes(2);
+            expect(mockAxiosInstance.post.mock.calls[0][1].batch).toHaveLength(1);
+            expect(mockAxiosInstance.post.mock.calls[1][1].batch).toHaveLength(1);
+        });
+
+        it('should flush buffered calls after flushIntervalMs', async () => {
+            jest.useFakeTimers();
+            try {
+                const client = new CDPClient({
+                    cdpApiKey: 'test-api-key',
+                    cdpFallbackEndpoints: [], failOnException: true,
+                    batching: { enabled: true, flushIntervalMs: 500 }
+                });
+
+                mockAxiosInstance.post.mockResolvedValue({ status: 200 });
+
+                const pending = client.track('user-123', 'purchase');
+                await jest.advanceTimersByTimeAsync(499);
+                expect(mockAxiosInstance.post).not.toHaveBeenCalled();
+
+                await jest.advanceTimersByTimeAsync(1);
+                await pending;
+                expect(mockAxiosInstance.post).toHaveBeenCalledTimes(1);
+                } finally {
+                jest.useRealTimers();
+            }
+        });
+
+        it('should reject every call in a failed batch when failOnException is true', async () => {
+            const client = new CDPClient({
+                cdpApiKey: 'test-api-key',
+                cdpFallbackEndpoints: [], failOnException: true,
+                batching: { enabled: true, maxBatchSize: 2, flushIntervalMs: 60000 }
+            });
+
+            mockAxiosInstance.post.mockRejectedValue(networkError());
+
+            const first = client.identify('user-1', {});
+            const second = client.track('user-2', 'purchase');
+
+            await expect(first).rejects.toThrow('Network Error');
+            await expect(second).rejects.toThrow('Network Error');
+        });
+
+        it('should resolve failed batched calls when failOnException is false', async () => {
+            const client = new CDPClient({
+                cdpApiKey: 'test-api-key',
+                cdpFallbackEndpoints: [],
+                batching: { enabled: true, maxBatchSize: 1, flushIntervalMs: 60000 }
+            });
+
+            mockAxiosInstance.post.mockRejectedValue(networkError());
+
+            const pending = client.track('user-1', 'purchase');
+
+            await expect(pending).resolves.toBeUndefined();
+        });
+
+        it('should reject buffered calls when the client is closed', async () => {
+            const client = new CDPClient({
+                cdpApiKey: 'test-api-key',
+                cdpFallbackEndpoints: [], failOnException: true,
+                batching: { enabled: true, maxBatchSize: 100, flushIntervalMs: 60000 }
+            });
+
+            const pending = Promise.allSettled([
+                client.identify('user-1', {}),
+                client.track('user-2', 'purchase')
+            ]);
+            await new Promise((resolve) => setImmediate(resolve));
+            client.close();
+
+            const settled = await pending;
+            expect(settled.every((result: any) => result.reason instanceof CDPError)).toBe(true);
+            expect(settled.map((result: any) => result.reason?.message)).toEqual([
+                'Batching queue closed before the call was sent',
+                'Batching queue closed before the call was sent'
+            ]);
+            await expect(client.track('user-3', 'purchase')).rejects.toThrow('Batching queue is closed');
+            expect(mockAxiosInstance.post).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('offline queue', () => {
+        let queueDir: string;
+
+        beforeEach(() => {
+            queueDir = fs.mkdtempSync(path.join(os.tmpdir(), 'opencdp-queue-'));
+        });
+
+        afterEach(() => {
+            fs.rmSync(queueDir, { recursive: true, force: true });
+        });
+
+        it('should persist calls when every gateway is unreachable and replay them once a gateway recovers', async () => {
+            const client = new CDPClient({
+                cdpApiKey: 'test-api-key',
+                cdpFallbackEndpoints: [], failOnException: true,
+                offlineQueue: { enabled: true, directory: queueDir }
+            });
+
+            mockAxiosInstance.post.mockRejectedValueOnce(networkError());
+            mockAxiosInstance.post.mockRejectedValueOnce(Object.assign(new Error('Bad Gateway'), { response: { status: 502 } }));
+
+            await client.identify('user-1', { plan: 'pro' });
+            await client.track('user-1', 'purchase', { amount: 100 });
+
+            let stats = await client.getQueueStats();
+            expect(stats).toMatchObject({ pending: 2, dropped: 0 });
+
+            mockAxiosInstance.post.mockResolvedValue({ status: 200 });
+            await client.track('user-1', 'login');
+
+            stats = await client.getQueueStats();
+            expect(stats).toMatchObject({ pending: 0, replayed: 2 });
+            const paths = mockAxiosInstance.post.mock.calls.map((call: any[]) => call[0]);
+            expect(paths).toEqual([
+                '/v1/persons/identify',
+                '/v1/persons/track',
+                '/v1/persons/track',
+                '/v1/persons/identify',
+                '/v1/persons/track'
+            ]);
+            expect(mockAxiosInstance.post.mock.calls[3][1]).toEqual({ identifier: 'user-1', properties: { plan: 'pro' } });
+            expect(mockAxiosInstance.post.mock.calls[3][2].headers['Idempotency-Key'])
+                .toBe(mockAxiosInstance.post.mock.calls[0][2].headers['Idempotency-Key']);
+            client.close();
+        });
+
+        it('should drop queued calls the gateway rejects without blocking the ones behind them', async () => {
+            const entry = (id: string, identifier: string) => JSON.stringify({
+                id,
+                operation: 'track',
+                path: '/v1/persons/track',
+                data: { identifier, eventName: 'purchase', properties: {} },
+                queuedAt: 0
+            });
+            fs.writeFileSync(
+                path.join(queueDir, 'opencdp-offline-queue.jsonl'),
+                [entry('entry-1', 'bad'), entry('entry-2', 'user-1'), entry('entry-3', 'user-2')].join('\n') + '\n'
+            );
+            const client = new CDPClient({
+                cdpApiKey: 'test-api-key',
+                cdpFallbackEndpoints: [],
+                offlineQueue: { enabled: true, directory: queueDir }
+            });
+            mockAxiosInstance.post.mockImplementation((path: any, body: any) =>
+                body.identifier === 'bad'
+                    ? Promise.reject(Object.assign(new Error('Bad Request'), { response: { status: 400 } }))
+                    : Promise.resolve({ status: 200 })
+            );
+            expect(await client.getQueueStats()).toMatchObject({ pending: 3 });
+
+            await client.track('user-3', 'login');
+
+            expect(await client.getQueueStats()).toMatchObject({ pending: 0, replayed: 2, rejected: 1 });
+            expect(mockAxiosInstance.post.mock.calls.map((call: any[]) => call[1].identifier)).toEqual(['user-3', 'bad', 'user-1', 'user-2']);
+            expect(fs.readFileSync(path.join(queueDir, 'opencdp-offline-queue.jsonl'), 'utf8')).toBe('');
+            mockAxiosInstance.post.mockReset();
+            client.close();
+        });
+
+        it('should keep calls enqueued while a replay is sending', async () => {
+            const client = new CDPClient({
+                cdpApiKey: 'test-api-key',
+                cdpFallbackEndpoints: [],
+                maxConcurrentRequests: 1,
+                offlineQueue: { enabled: true, directory: queueDir }
+            });
+            mockAxiosInstance.post.mockRejectedValueOnce(networkError());
+            await client.track('user-1', 'first');
+
+            // 'third' fails and enqueues itself while the replay triggered by 'second' is sending
+            mockAxiosInstance.post
+                .mockResolvedValueOnce({ status: 200 })
+                .mockRejectedValueOnce(networkError())
+                .mockResolvedValue({ status: 200 });
+            await client.track('user-1', 'second');
+            await client.track('user-1', 'third');
+
+            expect(await client.getQueueStats()).toMatchObject({ pending: 1, replayed: 1 });
+            const queued = fs.readFileSync(path.join(queueDir, 'opencdp-offline-queue.jsonl'), 'utf8');
+            expect(JSON.parse(queued).data.eventName).toBe('third');
+            mockAxiosInstance.post.mockReset();
+            client.close();
+        });
+
+        it('should report batched calls written to the offline queue as queued, not delivered', async () => {
+            const logger = { debug: jest.fn(), error: jest.fn(), warn: jest.fn() };
+            const client = new CDPClient({
+                cdpApiKey: 'test-api-key',
+                cdpFallbackEndpoints: [],
+                debug: true,
+                cdpLogger: logger,
+                sendToCustomerIo: true,
+                customerIo: { siteId: 'site-id', apiKey: 'cio-api-key' },
+                batching: { enabled: true, maxBatchSize: 1 },
+                offlineQueue: { enabled: true, directory: queueDir }
+            });
+            mockAxiosInstance.post.mockRejectedValueOnce(networkError());
+
+            const report = await client.track('user-1', 'purchase');
+
+            expect(report).toEqual({
+                operation: 'track',
+                destinations: {
+                    cdp: { ok: true, durationMs: expect.any(Number), queued: true },
+                    customerIo: { ok: true, durationMs: expect.any(Number) }
+                }
+            });
+            expect(logger.debug).toHaveBeenCalledWith('[CDP] Batched track for user-1 queued for replay');
+            expect(logger.debug).not.toHaveBeenCalledWith('[CDP] Batched track delivered for user-1');
+            expect(await client.getQueueStats()).toMatchObject({ pending: 1 });
+            client.close();
+        });
+
+        it('should not queue calls rejected with a 4xx', async () => {
+            const client = new CDPClient({
+                cdpApiKey: 'test-api-key',
+                cdpFallbackEndpoints: [], failOnException: true,
+                offlineQueue: { enabled: true, directory: queueDir }
+            });
+
+            mockAxiosInstance.post.mockRejectedValue(Object.assign(new Error('Bad Request'), { response: { status: 400 } }));
+
+            await expect(client.identify('user-1', {})).rejects.toThrow('Bad Request');
+            expect(await client.getQueueStats()).toMatchObject({ pending: 0 });
+            client.close();
+        });
+
+        it('should drop new calls once maxEntries is reached', async () => {
+            const client = new CDPClient({
+                cdpApiKey: 'test-api-key',
+                cdpFallbackEndpoints: [],
+                offlineQueue: { enabled: true, directory: queueDir, maxEntries: 1 }
+            });
+
+            mockAxiosInstance.post.mockRejectedValue(networkError());
+
+            await client.track('user-1', 'first');
+            await client.track('user-1', 'second');
+
+            expect(await client.getQueueStats()).toMatchObject({ pending: 1, dropped: 1 });
+            client.close();
+        });
+
+        it('should skip unreadable lines in an existing queue file', async () => {
+            const entry = { id: 'entry-1', operation: 'track', path: '/v1/persons/track', data: { identifier: 'user-1', eventName: 'purchase', properties: {} }, queuedAt: 0 };
+            fs.writeFileSync(
+                path.join(queueDir, 'opencdp-offline-queue.jsonl'),
+                'not json\n' + JSON.stringify(entry) + '\n{"id": "cut-sh'
+            );
+
+            const client = new CDPClient({
+                cdpApiKey: 'test-api-key',
+                cdpFallbackEndpoints: [],
+                offlineQueue: { enabled: true, directory: queueDir }
+            });
+
+            expect(await client.getQueueStats()).toMatchObject({ pending: 1, corrupted: 2 });
+            client.close();
+        });
+
+        it('should return null stats when the offline queue is disabled', async () => {
+            const client = new CDPClient({ cdpApiKey: 'test-api-key' });
+            expect(await client.getQueueStats()).toBeNull();
+        });
+    });
+
+    describe('retry', () => {
+        const unavailable = () => Object.assign(new Error('Service Unavailable'), { response: { status: 503, headers: {} } });
+
+        it('should retry transient failures against the same gateway', async () => {
+            const client = new CDPClient({
+                cdpApiKey: 'test-api-key',
+                cdpFallbackEndpoints: [], failOnException: true,
+                retry: { maxAttempts: 3, baseDelayMs: 1 }
+            });
+
+            mockAxiosInstance.post
+                .mockRejectedValueOnce(unavailable())
+                .mockRejectedValueOnce(unavailable())
+                .mockResolvedValue({ status: 200 });
+
+            await client.track('user-123', 'purchase');
+
+            expect(mockAxiosInstance.post).toHaveBeenCalledTimes(3);
+        });
+
+        it('should not retry client errors', async () => {
+            const client = new CDPClient({
+                cdpApiKey: 'test-api-key',
+                cdpFallbackEndpoints: [], failOnException: true,
+                retry: { maxAttempts: 3, baseDelayMs: 1 }
+            });
+
+            mockAxiosInstance.post.mockRejectedValue(Object.assign(new Error('Bad Request'), { response: { status: 400 } }));
+
+            await expect(client.track('user-123', 'purchase')).rejects.toThrow('Bad Request');
+            expect(mockAxiosInstance.post).toHaveBeenCalledTimes(1);
+        });
+
+        it('should wait for Retry-After before retrying', async () => {
+            const client = new CDPClient({
+                cdpApiKey: 'test-api-key',
+                cdpFallbackEndpoints: [], failOnException: true,
+                retry: { maxAttempts: 2, baseDelayMs: 1 }
+            });
+
+            mockAxiosInstance.post
+                .mockRejectedValueOnce(Object.assign(new Error('Too Many Requests'), { response: { status: 429, headers: { 'retry-after': '0.05' } } }))
+                .mockResolvedValue({ status: 200 });
+
+            const startedAt = Date.now();
+            await client.identify('user-123', {});
+
+            expect(Date.now() - startedAt).toBeGreaterThanOrEqual(45);
+            expect(mockAxiosInstance.post).toHaveBeenCalledTimes(2);
+        });
+
+        it('should release the concurrency slot while waiting to retry', async () => {
+            const client = new CDPClient({
+                cdpApiKey: 'test-api-key',
+                cdpFallbackEndpoints: [], failOnException: true,
+                maxConcurrentRequests: 1,
+                retry: { maxAttempts: 2, baseDelayMs: 1 }
+            });
+
+            mockAxiosInstance.post
+                .mockRejectedValueOnce(Object.assign(new Error('Too Many Requests'), { response: { status: 429, headers: { 'retry-after': '0.05' } } }))
+                .mockResolvedValue({ status: 200 });
+
+            await Promise.all([client.identify('user-1', {}), client.identify('user-2', {})]);
+
+            expect(mockAxiosInstance.post.mock.calls.map((call: any[]) => call[1].identifier)).toEqual(['user-1', 'user-2', 'user-1']);
+        });
+
+        it('should give up instead of waiting when Retry-After exceeds maxDelayMs', async () => {
+            const client = new CDPClient({
+                cdpApiKey: 'test-api-key',
+                cdpEndpoint: 'https://primary.example.com',
+                cdpFallbackEndpoints: ['https://fallback.example.com'],
+                failOnException: true,
+                retry: { maxAttempts: 3, baseDelayMs: 1, maxDelayMs: 1000 }
+            });
+
+            mockAxiosInstance.post
+                .mockRejectedValueOnce(Object.assign(new Error('Too Many Requests'), { response: { status: 429, headers: { 'retry-after': '120' } } }))
+                .mockResolvedValue({ status: 200 });
+
+            await expect(client.identify('user-123', {})).rejects.toMatchObject({ name: 'CDPRateLimitError', retryAfterMs: 120000 });
+
+            expect(mockAxiosInstance.post).toHaveBeenCalledTimes(1);
+        });
+
+        it('should apply per-operation overrides', async () => {
+            const client = new CDPClient({
+                cdpApiKey: 'test-api-key',
+                cdpFallbackEndpoints: [], failOnException: true,
+                retry: { maxAttempts: 3, baseDelayMs: 1, operations: { sendPush: { maxAttempts: 1 } } }
+            });
+
+            mockAxiosInstance.post.mockRejectedValue(unavailable());
+
+            await expect(client.sendPush({
+                identifiers: { id: 'user-123' },
+                transactional_message_id: 'WELCOME'
+            })).rejects.toThrow();
+            expect(mockAxiosInstance.post).toHaveBeenCalledTimes(1);
+
+            await expect(client.track('user-123', 'purchase')).rejects.toThrow();
+            expect(mockAxiosInstance.post).toHaveBeenCalledTimes(4);
+        });
+    });
+
+    describe('error classification', () => {
+        const failoverConfig = {
+            cdpApiKey: 'test-api-key',
+            cdpEndpoint: 'https://primary.example.com',
+            cdpFallbackEndpoints: ['https://fallback.example.com'],
+            failOnException: true
+        };
+
+        it('should not fail over on a 4xx and mark the error as not retryable', async () => {
+            const client = new CDPClient(failoverConfig);
+
+            mockAxiosInstance.post.mockRejectedValue(Object.assign(new Error('Unauthorized'), { response: { status: 401 } }));
+
+            await expect(client.identify('user-123', {})).rejects.toMatchObject({
+                classification: 'client',
+                retryable: false
+            });
+            expect(mockAxiosInstance.post).toHaveBeenCalledTimes(1);
+        });
+
+        it('should not fail over on a 429 and mark the error as retryable', async () => {
+            const client = new CDPClient(failoverConfig);
+
+            mockAxiosInstance.post.mockRejectedValue(Object.assign(new Error('Too Many Requests'), { response: { status: 429 } }));
+
+            await expect(client.track('user-123', 'purchase')).rejects.toMatchObject({
+                classification: 'rate_limit',
+                retryable: true,
+                gatewayUrl: 'https://primary.example.com'
+            });
+            expect(mockAxiosInstance.post).toHaveBeenCalledTimes(1);
+            expect(mockAxiosInstance.post.mock.calls[0][2]).toEqual(withIdempotencyKey('https://primary.example.com'));
+            mockAxiosInstance.post.mockReset();
+        });
+
+        it('should fail over on a 5xx and mark the error as retryable', async () => {
+            const client = new CDPClient(failoverConfig);
+
+            mockAxiosInstance.post.mockRejectedValue(Object.assign(new Error('Bad Gateway'), { response: { status: 502 } }));
+
+            await expect(client.track('user-123', 'purchase')).rejects.toMatchObject({
+                classification: 'server',
+                retryable: true
+            });
+            expect(mockAxiosInstance.post).toHaveBeenCalledTimes(2);
+            expect(mockAxiosInstance.post.mock.calls[1][2]).toEqual(withIdempotencyKey('https://fallback.example.com'));
+        });
+
+        it('should fail over on timeouts and network errors', async () => {
+            const client = new CDPClient(failoverConfig);
+
+            mockAxiosInstance.post
+                .mockRejectedValueOnce(Object.assign(new Error('timeout of 10000ms exceeded'), { code: 'ECONNABORTED' }))
+                .mockResolvedValue({ status: 200 });
+
+            await client.track('user-123', 'purchase');
+            expect(mockAxiosInstance.post).toHaveBeenCalledTimes(2);
+        });
+
+        it('should classify errors', () => {
+            expect(classifyError({ code: 'ECONNREFUSED' })).toBe('network');
+            expect(classifyError({ code: 'ECONNABORTED' })).toBe('timeout');
+            expect(classifyError({ response: { status: 408 } })).toBe('timeout');
+            expect(classifyError({ response: { status: 429 } })).toBe('rate_limit');
+            expect(classifyError({ response: { status: 503 } })).toBe('server');
+            expect(classifyError({ response: { status: 422 } })).toBe('client');
+            expect(classifyError(networkError())).toBe('network');
+            expect(classifyError(new TypeError("Cannot read properties of undefined (reading 'message')"))).toBe('client');
+        });
+
+        it('should not treat errors thrown by local code as network failures', async () => {
+            const typeError = new TypeError("Cannot read properties of undefined (reading 'message')");
+            expect(toCDPError(typeError, { operation: 'sendEmail' })).toMatchObject({
+                name: 'CDPError',
+                code: 'REQUEST_FAILED',
+                classification: 'client',
+                retryable: false,
+                operation: 'sendEmail',
+                cause: typeError
+            });
+
+            const queueDir = fs.mkdtempSync(path.join(os.tmpdir(), 'opencdp-queue-'));
+            const client = new CDPClient({ ...failoverConfig, offlineQueue: { enabled: true, directory: queueDir } });
+            expect(await client.results.sendEmail(undefined as any)).toEqual({
+                ok: false,
+                error: expect.objectContaining({ code: 'REQUEST_FAILED', retryable: false })
+            });
+
+            // e.g. a broken request interceptor: neither failed over nor queued
+            mockAxiosInstance.post.mockImplementation(() => { throw typeError; });
+            await expect(client.track('user-123', 'purchase')).rejects.toMatchObject({ code: 'REQUEST_FAILED', cause: typeError });
+            expect(mockAxiosInstance.post).toHaveBeenCalledTimes(1);
+            expect(await client.getQueueStats()).toMatchObject({ pending: 0 });
+            mockAxiosInstance.post.mockReset();
+            client.close();
+            fs.rmSync(queueDir, { recursive: true, force: true });
+        });
+    });
+
+    describe('circuit breaker', () => {
+        const failoverConfig = {
+            cdpApiKey: 'test-api-key',
+            cdpEndpoint: 'https://primary.example.com',
+            cdpFallbackEndpoints: ['https://fallback.example.com'],
+            failOnException: true,
+            circuitBreaker: { failureThreshold: 2, cooldownMs: 1000 }
+        };
+
+        afterEach(() => {
+            jest.useRealTimers();
+        });
+
+        it('should move a gateway behind the fallbacks once its circuit opens', async () => {
+            const client = new CDPClient(failoverConfig);
+
+            mockAxiosInstance.post.mockImplementation((_path: string, _data: any, config: any) =>
+                config.baseURL === 'https://primary.example.com'
+                    ? Promise.reject(networkError('connect ECONNREFUSED'))
+                    : Promise.resolve({ status: 200 })
+            );
+
+            await client.track('user-123', 'first');
+            await client.track('user-123', 'second');
+            expect(mockAxiosInstance.post).toHaveBeenCalledTimes(4);
+
+            mockAxiosInstance.post.mockClear();
+            await client.track('user-123', 'third');
+
+            expect(mockAxiosInstance.post).toHaveBeenCalledTimes(1);
+            expect(mockAxiosInstance.post.mock.calls[0][2]).toEqual(withIdempotencyKey('https://fallback.example.com'));
+
+            const status = client.getGatewayStatus();
+            expect(status.map((gateway) => [gateway.url, gateway.state, gateway.active])).toEqual([
+                ['https://fallback.example.com', 'closed', true],
+                ['https://primary.example.com', 'open', false]
+            ]);
+            expect(status[1].consecutiveFailures).toBe(2);
+        });
+
+        it('should probe an open gateway after the cool-down and close it on success', async () => {
+            jest.useFakeTimers({ now: 0, doNotFake: ['nextTick', 'setImmediate'] });
+            const client = new CDPClient(failoverConfig);
+
+            mockAxiosInstance.post.mockImplementation((_path: string, _data: any, config: any) =>
+                config.baseURL === 'https://primary.example.com'
+                    ? Promise.reject(networkError('connect ECONNREFUSED'))
+                    : Promise.resolve({ status: 200 })
             );
-            expect(result).toEqual({ messageId: 'sms-override', status: 'sent' });
+            await client.track('user-123', 'first');
+            await client.track('user-123', 'second');
+            expect(client.getGatewayStatus()[1]).toMatchObject({ state: 'open', nextAttemptAt: 1000 });
+
+            jest.setSystemTime(1000);
+            expect(client.getGatewayStatus()[0]).toMatchObject({ url: 'https://primary.example.com', state: 'half_open', active: true });
+
+            mockAxiosInstance.post.mockClear();
+            mockAxiosInstance.post.mockResolvedValue({ status: 200 });
+            await client.track('user-123', 'third');
+
+            expect(mockAxiosInstance.post.mock.calls[0][2]).toEqual(withIdempotencyKey('https://primary.example.com'));
+            expect(client.getGatewayStatus()[0]).toMatchObject({ url: 'https://primary.example.com', state: 'closed', consecutiveFailures: 0 });
+        });
+
+        it('should fail fast without sending when every circuit is open', async () => {
+            const client = new CDPClient(failoverConfig);
+
+            mockAxiosInstance.post.mockRejectedValue(networkError('connect ECONNREFUSED'));
+            await expect(client.track('user-123', 'first')).rejects.toThrow();
+            await expect(client.track('user-123', 'second')).rejects.toThrow();
+            expect(client.getGatewayStatus().every((gateway) => gateway.state === 'open')).toBe(true);
+
+            mockAxiosInstance.post.mockClear();
+            mockAxiosInstance.post.mockResolvedValue({ status: 200 });
+            await expect(client.track('user-123', 'third', {}, { idempotencyKey: 'third-1' })).rejects.toMatchObject({
+                name: 'CDPCircuitOpenError',
+                code: 'CIRCUIT_OPEN',
+                retryable: true,
+                operation: 'track',
+                idempotencyKey: 'third-1'
+            });
+
+            expect(mockAxiosInstance.post).not.toHaveBeenCalled();
+        });
+
+        it('should send at most one probe when several circuits are half-open', async () => {
+            jest.useFakeTimers({ now: 0, doNotFake: ['nextTick', 'setImmediate'] });
+            const client = new CDPClient(failoverConfig);
+
+            mockAxiosInstance.post.mockRejectedValue(networkError('connect ECONNREFUSED'));
+            await expect(client.track('user-123', 'first')).rejects.toThrow();
+            await expect(client.track('user-123', 'second')).rejects.toThrow();
+
+            jest.setSystemTime(1000);
+            mockAxiosInstance.post.mockClear();
+            await expect(client.track('user-123', 'third')).rejects.toThrow('connect ECONNREFUSED');
+
+            expect(mockAxiosInstance.post).toHaveBeenCalledTimes(1);
+            expect(mockAxiosInstance.post.mock.calls[0][2]).toEqual(withIdempotencyKey('https://primary.example.com'));
+            expect(client.getGatewayStatus().map((gateway) => [gateway.url, gateway.state])).toEqual([
+                ['https://fallback.example.com', 'half_open'],
+                ['https://primary.example.com', 'open']
+            ]);
+            mockAxiosInstance.post.mockReset();
+        });
+
+        it('should not count client errors against a gateway', async () => {
+            const client = new CDPClient(failoverConfig);
+
+            mockAxiosInstance.post.mockRejectedValue(Object.assign(new Error('Bad Request'), { response: { status: 400 } }));
+            await expect(client.track('user-123', 'first')).rejects.toThrow();
+            await expect(client.track('user-123', 'second')).rejects.toThrow();
+
+            expect(client.getGatewayStatus()[0]).toMatchObject({ url: 'https://primary.example.com', state: 'closed', consecutiveFailures: 0 });
+        });
+
+        it('should keep the configured order when disabled', async () => {
+            const client = new CDPClient({ ...failoverConfig, circuitBreaker: { enabled: false, failureThreshold: 1 } });
+
+            mockAxiosInstance.post.mockRejectedValueOnce(networkError('connect ECONNREFUSED')).mockResolvedValue({ status: 200 });
+            await client.track('user-123', 'first');
+
+            expect(client.getGatewayStatus()[0]).toMatchObject({ url: 'https://primary.example.com', state: 'closed', consecutiveFailures: 1 });
+        });
+    });
+
+    describe('idempotency keys', () => {
+        it('should send the same generated key on every attempt across gateways', async () => {
+            const client = new CDPClient({
+                cdpApiKey: 'test-api-key',
+                cdpEndpoint: 'https://primary.example.com',
+                cdpFallbackEndpoints: ['https://fallback.example.com'],
+                failOnException: true,
+                retry: { maxAttempts: 2, baseDelayMs: 1 }
+            });
+
+            mockAxiosInstance.post
+                .mockRejectedValueOnce(networkError())
+                .mockRejectedValueOnce(networkError())
+                .mockResolvedValue({ status: 200, data: { messageId: 'email-1' } });
+
+            const result = await client.sendEmail(createEmailRequest({
+                to: 'test@example.com',
+                identifiers: { id: 'user-123' },
+                transactional_message_id: 'WELCOME'
+            }));
+
+            const keys = mockAxiosInstance.post.mock.calls.map((call: any[]) => call[2].headers['Idempotency-Key']);
+            expect(keys).toHaveLength(3);
+            expect(new Set(keys).size).toBe(1);
+            expect(result).toEqual({ messageId: 'email-1', idempotencyKey: keys[0] });
+        });
+
+        it('should use a caller-supplied key and generate a new one per call otherwise', async () => {
+            const client = new CDPClient({
+                cdpApiKey: 'test-api-key',
+                cdpFallbackEndpoints: [], failOnException: true
+            });
+
+            mockAxiosInstance.post.mockResolvedValue({ status: 200, data: {} });
+
+            const smsRequest = { identifiers: { id: 'user-123' }, transactional_message_id: 'OTP' };
+            const supplied = await client.sendSms(smsRequest, { idempotencyKey: 'order-42-otp' });
+            await client.track('user-123', 'purchase');
+            await client.track('user-123', 'purchase');
+
+            expect(supplied.idempotencyKey).toBe('order-42-otp');
+            const keys = mockAxiosInstance.post.mock.calls.map((call: any[]) => call[2].headers['Idempotency-Key']);
+            expect(keys[0]).toBe('order-42-otp');
+            expect(keys[1]).not.toBe(keys[2]);
+        });
+
+        it('should expose the key on errors', async () => {
+            const client = new CDPClient({
+                cdpApiKey: 'test-api-key',
+                cdpFallbackEndpoints: [], failOnException: true
+            });
+
+            mockAxiosInstance.post.mockRejectedValue(Object.assign(new Error('Bad Request'), { response: { status: 400, data: {} } }));
+
+            await expect(client.sendPush(
+                { identifiers: { id: 'user-123' }, transactional_message_id: 'WELCOME' },
+                { idempotencyKey: 'push-1' }
+            )).rejects.toMatchObject({ idempotencyKey: 'push-1' });
+        });
+    });
+
+    describe('typed errors', () => {
+        const client = () => new CDPClient({
+            cdpApiKey: 'test-api-key',
+            cdpFallbackEndpoints: [], failOnException: true
+        });
+        const httpError = (status: number, message?: string, headers: Record<string, string> = {}) =>
+            Object.assign(new Error(`Request failed with status code ${status}`), {
+                response: { status, headers, data: message ? { message } : {} }
+            });
+
+        it('should throw CDPValidationError for local validation failures', async () => {
+            const error: any = await client().identify('', {}).catch((e) => e);
+
+            expect(error).toBeInstanceOf(CDPValidationError);
+            expect(error).toBeInstanceOf(CDPError);
+            expect(error).toMatchObject({ code: 'VALIDATION_ERROR', operation: 'identify', retryable: false });
+            expect(error.message).toBe('Identifier cannot be empty');
+            expect(mockAxiosInstance.post).not.toHaveBeenCalled();
+        });
+
+        it('should map gateway responses to error classes', async () => {
+            mockAxiosInstance.post.mockRejectedValueOnce(httpError(401, 'Invalid API key'));
+            await expect(client().track('user-123', 'purchase')).rejects.toBeInstanceOf(CDPAuthError);
+
+            mockAxiosInstance.post.mockRejectedValueOnce(httpError(422, 'eventName is too long'));
+            await expect(client().track('user-123', 'purchase')).rejects.toMatchObject({
+                name: 'CDPValidationError',
+                status: 422,
+                message: 'eventName is too long'
+            });
+
+            mockAxiosInstance.post.mockRejectedValueOnce(httpError(429, undefined, { 'retry-after': '7' }));
+            await expect(client().registerDevice('user-123', { deviceId: 'd1', platform: 'ios', fcmToken: 't' }))
+                .rejects.toMatchObject({ name: 'CDPRateLimitError', retryAfterMs: 7000, operation: 'registerDevice' });
+
+            mockAxiosInstance.post.mockRejectedValueOnce(httpError(503));
+            await expect(client().sendEmail(createEmailRequest({
+                to: 'test@example.com',
+                identifiers: { id: 'user-123' },
+                transactional_message_id: 'WELCOME'
+            }))).rejects.toBeInstanceOf(CDPServerError);
+
+            mockAxiosInstance.post.mockRejectedValueOnce(Object.assign(new Error('timeout of 10000ms exceeded'), { code: 'ECONNABORTED' }));
+            await expect(client().track('user-123', 'purchase')).rejects.toMatchObject({
+                name: 'CDPNetworkError',
+                code: 'TIMEOUT',
+                classification: 'timeout',
+                retryable: true
+            });
+
+            mockAxiosInstance.post.mockRejectedValueOnce(httpError(404, 'Template not found'));
+            const notFound: any = await client().sendPush({ identifiers: { id: 'user-123' }, transactional_message_id: 'MISSING' }).catch((e) => e);
+            expect(notFound.constructor).toBe(CDPError);
+            expect(notFound).toMatchObject({ code: 'REQUEST_FAILED', status: 404, operation: 'sendPush' });
+        });
+
+        it('should throw CDPError from ping', async () => {
+            mockAxiosInstance.get.mockRejectedValue(networkError('getaddrinfo ENOTFOUND api.opencdp.io'));
+
+            await expect(client().ping()).rejects.toBeInstanceOf(CDPNetworkError);
+        });
+
+        it('should wrap Customer.io failures', async () => {
+            const cioClient = new CDPClient({
+                cdpApiKey: 'test-api-key',
+                cdpFallbackEndpoints: [], failOnException: true,
+                sendToCustomerIo: true,
+                customerIo: { siteId: 'site-id', apiKey: 'cio-api-key' }
+            });
+            const cioInstance = latestCioInstance();
+            cioInstance.identify.mockRejectedValueOnce(Object.assign(new Error('Unauthorized'), { statusCode: 401 }));
+            mockAxiosInstance.post.mockResolvedValue({ status: 200 });
+
+            await expect(cioClient.identify('user-123', {})).rejects.toMatchObject({
+                name: 'CDPAuthError',
+                operation: 'identify',
+                status: 401,
+                destinations: { cdp: { ok: true }, customerIo: { ok: false } }
+            });
+        });
+    });
+
+    describe('results', () => {
+        it('should resolve to ok results on success', async () => {
+            const client = new CDPClient({ cdpApiKey: 'test-api-key', cdpFallbackEndpoints: [] });
+            mockAxiosInstance.post.mockResolvedValue({ status: 200, data: { delivery_id: 'abc' } });
+            mockAxiosInstance.get.mockResolvedValue({ status: 200, data: {} });
+
+            await expect(client.results.ping()).resolves.toEqual({ ok: true, data: undefined });
+            await expect(client.results.identify('user-123', { plan: 'pro' })).resolves.toEqual({ ok: true, data: undefined });
+            await expect(client.results.track('user-123', 'purchase')).resolves.toEqual({ ok: true, data: undefined });
+            await expect(client.results.sendPush({ identifiers: { id: 'user-123' }, transactional_message_id: 'WELCOME' }))
+                .resolves.toEqual({ ok: true, data: { delivery_id: 'abc', idempotencyKey: expect.any(String) } });
+        });
+
+        it('should resolve to error results instead of undefined on failure', async () => {
+            const client = new CDPClient({ cdpApiKey: 'test-api-key', cdpFallbackEndpoints: [] });
+            mockAxiosInstance.post.mockRejectedValue(Object.assign(new Error('Request failed with status code 500'), {
+                response: { status: 500, headers: {}, data: {} }
+            }));
+
+            const identified = await client.results.identify('user-123');
+            expect(identified.ok).toBe(false);
+            expect((identified as any).error).toBeInstanceOf(CDPServerError);
+            expect((identified as any).error).toMatchObject({ operation: 'identify', status: 500 });
+
+            const sms = await client.results.sendSms({ identifiers: { id: 'user-123' }, to: '+15551234567', body: 'Hi' });
+            expect(sms).toEqual({ ok: false, error: expect.any(CDPServerError) });
+
+            const registered = await client.results.registerDevice('', { deviceId: 'd1', platform: 'ios', fcmToken: 't' });
+            expect(registered).toEqual({ ok: false, error: expect.any(CDPValidationError) });
+        });
+
+        it('should never throw even when failOnException is set', async () => {
+            const client = new CDPClient({ cdpApiKey: 'test-api-key', cdpFallbackEndpoints: [], failOnException: true });
+
+            const result = await client.results.track('user-123', '');
+            expect(result).toEqual({ ok: false, error: expect.any(CDPValidationError) });
+            expect((result as any).error.operation).toBe('track');
+        });
+
+        it('should keep the classic methods unchanged', async () => {
+            const client = new CDPClient({ cdpApiKey: 'test-api-key', cdpFallbackEndpoints: [] });
+            mockAxiosInstance.post.mockRejectedValue(networkError('connect ECONNREFUSED'));
+
+            await expect(client.identify('user-123')).resolves.toBeUndefined();
+            await expect(client.sendPush({ identifiers: { id: 'user-123' }, transactional_message_id: 'WELCOME' })).resolves.toBeUndefined();
+            await expect(client.sendEmail(createEmailRequest({
+                to: 'test@example.com',
+                identifiers: { id: 'user-123' },
+                transactional_message_id: 'WELCOME'
+            }))).resolves.toEqual({ ok: false, error: expect.any(CDPNetworkError) });
+        });
+    });
+
+    describe('middleware', () => {
+        const client = () => new CDPClient({ cdpApiKey: 'test-api-key', cdpFallbackEndpoints: [] });
+
+        it('should let middleware enrich calls before they are sent', async () => {
+            const cdp = client().use({
+                before: (call) => call.operation === 'track'
+                    ? { ...call, payload: { ...call.payload, properties: { ...call.payload.properties, service: 'checkout' } } }
+                    : undefined
+            });
+
+            await cdp.track('user-123', 'purchase', { amount: 10 });
+
+            expect(mockAxiosInstance.post).toHaveBeenCalledWith(
+                '/v1/persons/track',
+                { identifier: 'user-123', eventName: 'purchase', properties: { amount: 10, service: 'checkout' } },
+                withIdempotencyKey('https://api.opencdp.io/gateway/data-gateway')
+            );
+        });
+
+        it('should run before hooks in order and after hooks in reverse order', async () => {
+            const calls: string[] = [];
+            const cdp = client()
+                .use({ before: () => { calls.push('a:before'); }, after: () => { calls.push('a:after'); } })
+                .use({ before: () => { calls.push('b:before'); }, after: () => { calls.push('b:after'); } });
+
+            await cdp.identify('user-123', { plan: 'pro' });
+
+            expect(calls).toEqual(['a:before', 'b:before', 'b:after', 'a:after']);
+        });
+
+        it('should drop calls when before returns null', async () => {
+            const after = jest.fn<() => void>();
+            const cdp = client().use({
+                before: (call) => call.identifier.startsWith('test-') ? null : undefined,
+                after
+            });
+
+            await expect(cdp.results.identify('test-user', {})).resolves.toEqual({ ok: true, data: undefined });
+            expect(mockAxiosInstance.post).not.toHaveBeenCalled();
+            expect(after).not.toHaveBeenCalled();
+        });
+
+        it('should pass the sent envelope and the outcome to after hooks', async () => {
+            mockAxiosInstance.post.mockResolvedValue({ status: 200, data: { delivery_id: 'abc' } });
+            const after = jest.fn<() => void>();
+            const cdp = client().use({ after });
+
+            await cdp.sendPush({ identifiers: { id: 'user-123' }, transactional_message_id: 'WELCOME' });
+
+            expect(after).toHaveBeenCalledWith(
+                { operation: 'sendPush', identifier: 'user-123', payload: { identifiers: { id: 'user-123' }, transactional_message_id: 'WELCOME' } },
+                { ok: true, data: { delivery_id: 'abc', idempotencyKey: expect.any(String) } }
+            );
+
+            mockAxiosInstance.post.mockRejectedValue(networkError('connect ECONNREFUSED'));
+            await cdp.registerDevice('user-123', { deviceId: 'd1', platform: 'ios', fcmToken: 't' });
+
+            expect(after).toHaveBeenLastCalledWith(
+                expect.objectContaining({ operation: 'registerDevice', identifier: 'user-123' }),
+                { ok: false, error: expect.any(CDPNetworkError) }
+            );
+        });
+
+        it('should fail the call when a before hook throws and ignore after hook errors', async () => {
+            const failing = client().use({ before: () => { throw new Error('blocked'); } });
+            const result = await failing.results.track('user-123', 'purchase');
+            expect(result).toEqual({ ok: false, error: expect.any(CDPError) });
+            expect((result as any).error).toMatchObject({ message: 'blocked', operation: 'track' });
+
+            mockAxiosInstance.post.mockResolvedValue({ status: 200, data: {} });
+            const logger = { debug: jest.fn(), error: jest.fn(), warn: jest.fn() };
+            const auditing = new CDPClient({ cdpApiKey: 'test-api-key', cdpFallbackEndpoints: [], cdpLogger: logger })
+                .use({ name: 'audit', after: () => { throw new Error('audit sink down'); } });
+            await expect(auditing.results.identify('user-123')).resolves.toEqual({ ok: true, data: undefined });
+            expect(logger.error).toHaveBeenCalledWith('[CDP] Middleware after hook error', expect.objectContaining({
+                middleware: 'audit',
+                message: 'audit sink down'
+            }));
+        });
+
+        it('should not allow middleware to change the operation', async () => {
+            const cdp = client().use({
+                before: (call) => ({ operation: 'identify', identifier: call.identifier!, payload: { properties: {} } })
+            });
+
+            const result = await cdp.results.track('user-123', 'purchase');
+            expect(result.ok).toBe(false);
+            expect(mockAxiosInstance.post).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('pii redaction', () => {
+        const sha256 = (value: string) => createHash('sha256').update(value).digest('hex');
+        const pii = {
+            rules: [
+                { path: 'password', action: 'drop' as const },
+                { path: 'address.street', action: 'mask' as const },
+                { path: /(^|\.)phone$/, action: 'hash' as const },
+                { path: 'children.*.name', action: 'mask' as const },
+                { pattern: /[^\s@]+@[^\s@]+\.[^\s@]+/, action: 'mask' as const }
+            ]
+        };
+
+        it('should redact identify traits before sending them', async () => {
+            const client = new CDPClient({ cdpApiKey: 'test-api-key', cdpFallbackEndpoints: [], pii });
+            const traits = {
+                plan: 'pro',
+                password: 'hunter2',
+                phone: '+15551234567',
+                contact: { phone: '+15557654321', note: 'reach me at jane@example.com' },
+                address: { street: '1 Main St', city: 'Lagos' },
+                children: [{ name: 'Ada', age: 4 }]
+            };
+
+            await client.identify('user-123', traits);
+
+            expect(mockAxiosInstance.post).toHaveBeenCalledWith(
+                '/v1/persons/identify',
+                {
+                    identifier: 'user-123',
+                    properties: {
+                        plan: 'pro',
+                        phone: sha256('+15551234567'),
+                        contact: { phone: sha256('+15557654321'), note: 'reach me at [REDACTED]' },
+                        address: { street: '[REDACTED]', city: 'Lagos' },
+                        children: [{ name: '[REDACTED]', age: 4 }]
+                    }
+                },
+                withIdempotencyKey('https://api.opencdp.io/gateway/data-gateway')
+            );
+            // The caller's object is left untouched
+            expect(traits.password).toBe('hunter2');
+        });
+
+        it('should redact event properties sent to Customer.io as well', async () => {
+            const client = new CDPClient({
+                cdpApiKey: 'test-api-key',
+                cdpFallbackEndpoints: [],
+                sendToCustomerIo: true,
+                customerIo: { siteId: 'site-id', apiKey: 'cio-api-key' },
+                pii: { rules: [{ path: 'email', action: 'hash' }], hashSalt: 'pepper' }
+            });
+            const cioInstance = latestCioInstance();
+
+            await client.track('user-123', 'signup', { email: 'jane@example.com', source: 'ads' });
+
+            const redacted = { email: sha256('pepperjane@example.com'), source: 'ads' };
+            expect(cioInstance.track).toHaveBeenCalledWith('user-123', { name: 'signup', data: redacted });
+            expect(mockAxiosInstance.post).toHaveBeenCalledWith(
+                '/v1/persons/track',
+                { identifier: 'user-123', eventName: 'signup', properties: redacted },
+                withIdempotencyKey('https://api.opencdp.io/gateway/data-gateway')
+            );
+        });
+
+        it('should redact log messages and context', async () => {
+            const logger = { debug: jest.fn(), error: jest.fn(), warn: jest.fn() };
+            const client = new CDPClient({
+                cdpApiKey: 'test-api-key',
+                cdpFallbackEndpoints: [],
+                debug: true,
+                cdpLogger: logger,
+                pii
+            });
+            mockAxiosInstance.post.mockResolvedValueOnce({ status: 200, data: {} });
+
+            await client.sendEmail(createEmailRequest({
+                to: 'jane@example.com',
+                identifiers: { id: 'user-123' },
+                transactional_message_id: 'WELCOME'
+            }));
+            await client.sendEmail(createEmailRequest({
+                to: 'not-an-email jane@example',
+                identifiers: { id: 'user-123' },
+                transactional_message_id: 'WELCOME'
+            }));
+
+            expect(logger.debug).toHaveBeenCalledWith('[CDP] Email sent successfully');
+            const logged = JSON.stringify([logger.debug.mock.calls, logger.error.mock.calls, logger.warn.mock.calls]);
+            expect(logged).not.toContain('jane@example.com');
+            // The email itself is still delivered to the real address
+            expect(mockAxiosInstance.post).toHaveBeenCalledWith(
+                '/v1/send/email',
+                expect.objectContaining({ to: 'jane@example.com' }),
+                expect.anything()
+            );
+        });
+
+        it('should leave logs untouched when redactLogs is false', async () => {
+            const logger = { debug: jest.fn(), error: jest.fn(), warn: jest.fn() };
+            const client = new CDPClient({
+                cdpApiKey: 'test-api-key',
+                cdpFallbackEndpoints: [],
+                debug: true,
+                cdpLogger: logger,
+                pii: { ...pii, redactLogs: false }
+            });
+            mockAxiosInstance.post.mockResolvedValueOnce({ status: 200 });
+
+            await client.identify('jane@example.com', {});
+
+            expect(logger.debug).toHaveBeenCalledWith('[CDP] Identified jane@example.com');
+        });
+
+        it('should not log the recipient of an email with the default settings', async () => {
+            const logger = { debug: jest.fn(), error: jest.fn(), warn: jest.fn() };
+            const client = new CDPClient({
+                cdpApiKey: 'test-api-key',
+                cdpFallbackEndpoints: [],
+                debug: true,
+                cdpLogger: logger
+            });
+            mockAxiosInstance.post.mockResolvedValueOnce({ status: 200, data: {} });
+
+            await client.sendEmail(createEmailRequest({
+                to: 'jane@example.com',
+                identifiers: { id: 'user-123' },
+                transactional_message_id: 'WELCOME'
+            }));
+
+            expect(logger.debug).toHaveBeenCalledWith('[CDP] Email sent successfully');
+            const logged = JSON.stringify([logger.debug.mock.calls, logger.error.mock.calls, logger.warn.mock.calls]);
+            expect(logged).not.toContain('jane@example.com');
+        });
+    });
+
+    describe('tracking plan', () => {
+        const trackingPlan = {
+            events: {
+                purchase: {
+                    type: 'object' as const,
+                    required: ['amount', 'currency'],
+                    additionalProperties: false,
+                    properties: {
+                        amount: { type: 'number' as const, minimum: 0 },
+                        currency: { type: 'string' as const, enum: ['NGN', 'USD'] },
+                        items: { type: 'array' as const, items: { type: 'object' as const, required: ['sku'] } }
+                    }
+                }
+            },
+            identify: {
+                type: 'object' as const,
+                properties: { email: { type: 'string' as const, format: 'email' } }
+            }
+        };
+
+        it('should log readable violations and still send in warn mode', async () => {
+            const logger = { debug: jest.fn(), error: jest.fn(), warn: jest.fn() };
+            const client = new CDPClient({ cdpApiKey: 'test-api-key', cdpFallbackEndpoints: [], cdpLogger: logger, trackingPlan });
+
+            await client.track('user-123', 'purchase', { amount: '10', coupon: 'X', items: [{}] });
+
+            expect(logger.warn).toHaveBeenCalledWith(
+                '[CDP] Tracking plan violation for event "purchase": properties.currency is required; ' +
+                'properties.amount must be number (got string); properties.coupon is not declared in the tracking plan; ' +
+                'properties.items.0.sku is required'
+            );
+            expect(mockAxiosInstance.post).toHaveBeenCalledTimes(1);
+        });
+
+        it('should reject violations in strict mode', async () => {
+            const client = new CDPClient({
+                cdpApiKey: 'test-api-key',
+                cdpFallbackEndpoints: [],
+                trackingPlan: { ...trackingPlan, mode: 'strict' }
+            });
+
+            const result = await client.results.identify('user-123', { email: 'not-an-email' });
+
+            expect(result).toEqual({ ok: false, error: expect.any(CDPTrackingPlanError) });
+            const error = (result as any).error;
+            expect(error).toBeInstanceOf(CDPValidationError);
+            expect(error).toMatchObject({ code: 'VALIDATION_ERROR', operation: 'identify' });
+            expect(error.violations).toEqual([{ path: 'traits.email', keyword: 'format', message: 'must be a valid email' }]);
+            expect(mockAxiosInstance.post).not.toHaveBeenCalled();
+
+            await expect(client.results.track('user-123', 'purchase', { amount: 5, currency: 'USD' }))
+                .resolves.toEqual({ ok: true, data: undefined });
+        });
+
+        it('should only reject unknown events when asked to', async () => {
+            const lenient = new CDPClient({ cdpApiKey: 'test-api-key', cdpFallbackEndpoints: [], trackingPlan: { ...trackingPlan, mode: 'strict' } });
+            await expect(lenient.results.track('user-123', 'purchsae')).resolves.toMatchObject({ ok: true });
+
+            const client = new CDPClient({
+                cdpApiKey: 'test-api-key',
+                cdpFallbackEndpoints: [],
+                trackingPlan: { ...trackingPlan, mode: 'strict', rejectUnknownEvents: true }
+            });
+            const result = await client.results.track('user-123', 'purchsae');
+            expect((result as any).error.message).toBe('Tracking plan violation for event "purchsae": event "purchsae" is not in the tracking plan');
+        });
+
+        it('should not check anything in off mode and allow replacing the plan', async () => {
+            const client = new CDPClient({
+                cdpApiKey: 'test-api-key',
+                cdpFallbackEndpoints: [],
+                trackingPlan: { ...trackingPlan, mode: 'off', rejectUnknownEvents: true }
+            });
+            await expect(client.results.track('user-123', 'anything', { amount: 'x' })).resolves.toMatchObject({ ok: true });
+
+            client.loadTrackingPlan({ ...trackingPlan, mode: 'strict' });
+            await expect(client.results.track('user-123', 'purchase', { amount: 'x' })).resolves.toMatchObject({ ok: false });
+        });
+
+        it('should reject properties that are not an object', async () => {
+            const client = new CDPClient({ cdpApiKey: 'test-api-key', cdpFallbackEndpoints: [] });
+
+            const result = await client.results.track('user-123', 'purchase', ['amount'] as any);
+
+            expect(result).toEqual({ ok: false, error: expect.any(CDPValidationError) });
+            expect((result as any).error.message).toBe('Properties must be a valid object');
+        });
+    });
+
+    describe('typed events and traits', () => {
+        type Events = {
+            order_completed: { orderId: string; total: number };
+            app_opened: Record<string, never>;
+        };
+        interface Traits {
+            email: string;
+            plan: 'free' | 'pro';
+        }
+
+        it('should type-check event names, properties and traits', async () => {
+            const client = new CDPClient<Events, Traits>({ cdpApiKey: 'test-api-key', cdpFallbackEndpoints: [] });
+
+            await client.track('user-123', 'order_completed', { orderId: 'o-1', total: 25 });
+            await client.track('user-123', 'app_opened');
+            await client.identify('user-123', { plan: 'pro' });
+            await client.results.track('user-123', 'order_completed', { orderId: 'o-2', total: 5 });
+
+            // @ts-expect-error unknown event name
+            await client.track('user-123', 'order_complete', { orderId: 'o-1', total: 25 });
+            // @ts-expect-error total must be a number
+            await client.track('user-123', 'order_completed', { orderId: 'o-1', total: '25' });
+            // @ts-expect-error plan is not one of the declared values
+            await client.identify('user-123', { plan: 'enterprise' });
+            // @ts-expect-error unknown event name on the result variant
+            await client.results.track('user-123', 'signup');
+
+            expect(mockAxiosInstance.post).toHaveBeenCalledWith(
+                '/v1/persons/track',
+                { identifier: 'user-123', eventName: 'order_completed', properties: { orderId: 'o-1', total: 25 } },
+                withIdempotencyKey('https://api.opencdp.io/gateway/data-gateway')
+            );
+        });
+
+        it('should accept any event and properties by default', async () => {
+            const client = new CDPClient({ cdpApiKey: 'test-api-key', cdpFallbackEndpoints: [] });
+
+            await client.track('user-123', 'anything', { nested: { value: 1 } });
+            await client.identify('user-123', { whatever: true });
+
+            expect(mockAxiosInstance.post).toHaveBeenCalledTimes(2);
+        });
+    });
+
+    describe('dry run', () => {
+        it('should build and return the request without sending it', async () => {
+            const logger = { debug: jest.fn(), error: jest.fn(), warn: jest.fn() };
+            const client = new CDPClient({
+                cdpApiKey: 'test-api-key',
+                cdpFallbackEndpoints: ['https://fallback.example.com'],
+                debug: true,
+                cdpLogger: logger,
+                sendToCustomerIo: true,
+                customerIo: { siteId: 'site-id', apiKey: 'cio-api-key' },
+                dryRun: true
+            });
+            const cioInstance = latestCioInstance();
+
+            const report = await client.track('user-123', 'purchase', { amount: 10 }, { idempotencyKey: 'purchase-1' });
+
+            expect(report).toEqual({
+                dryRun: true,
+                operation: 'track',
+                method: 'POST',
+                url: 'https://api.opencdp.io/gateway/data-gateway/v1/persons/track',
+                path: '/v1/persons/track',
+                gatewayUrls: ['https://api.opencdp.io/gateway/data-gateway', 'https://fallback.example.com'],
+                payload: { identifier: 'user-123', eventName: 'purchase', properties: { amount: 10 } },
+                idempotencyKey: 'purchase-1',
+                destinations: {
+                    customerIo: { method: 'track', args: ['user-123', { name: 'purchase', data: { amount: 10 } }] }
+                }
+            });
+            expect(mockAxiosInstance.post).not.toHaveBeenCalled();
+            expect(cioInstance.track).not.toHaveBeenCalled();
+            expect(logger.debug).toHaveBeenCalledWith(
+                '[CDP] Dry run: POST https://api.opencdp.io/gateway/data-gateway/v1/persons/track ' +
+                '{"identifier":"user-123","eventName":"purchase","properties":{"amount":10}}'
+            );
+        });
+
+        it('should not log the report when debug is off', async () => {
+            const logger = { debug: jest.fn(), error: jest.fn(), warn: jest.fn() };
+            const client = new CDPClient({ cdpApiKey: 'test-api-key', cdpFallbackEndpoints: [], cdpLogger: logger, dryRun: true });
+
+            await client.identify('user-123', { email: 'jane@example.com' });
+
+            expect(logger.debug).not.toHaveBeenCalled();
+        });
+
+        it('should return the cleaned send payload for a template-based email', async () => {
+            const client = new CDPClient({ cdpApiKey: 'test-api-key', cdpFallbackEndpoints: [] });
+
+            const report = await client.sendEmail(createEmailRequest({
+                to: 'test@example.com',
+                identifiers: { id: 'user-123' },
+                transactional_message_id: 'WELCOME',
+                message_data: { name: 'Jane' }
+            }), { dryRun: true });
+
+            expect(report).toMatchObject({
+                operation: 'sendEmail',
+                url: 'https://api.opencdp.io/gateway/data-gateway/v1/send/email',
+                payload: {
+                    to: 'test@example.com',
+                    identifiers: { id: 'user-123' },
+                    transactional_message_id: 'WELCOME',
+                    message_data: { name: 'Jane' }
+                }
+            });
+            expect(report).not.toHaveProperty('destinations');
+            expect(mockAxiosInstance.post).not.toHaveBeenCalled();
+        });
+
+        it('should still validate and run middleware', async () => {
+            const client = new CDPClient({ cdpApiKey: 'test-api-key', cdpFallbackEndpoints: [], dryRun: true })
+                .use({ before: (call) => call.operation === 'identify' ? { ...call, payload: { properties: { ...call.payload.properties, source: 'api' } } } : undefined });
+
+            await expect(client.results.identify('', {})).resolves.toMatchObject({ ok: false, error: expect.any(CDPValidationError) });
+            await expect(client.identify('user-123', { plan: 'pro' })).resolves.toMatchObject({
+                payload: { identifier: 'user-123', properties: { plan: 'pro', source: 'api' } }
+            });
+            await expect(client.registerDevice('user-123', { deviceId: 'd1', platform: 'ios', fcmToken: 't' })).resolves.toMatchObject({
+                path: '/v1/persons/registerDevice'
+            });
+            await expect(client.ping()).resolves.toBeUndefined();
+            expect(mockAxiosInstance.get).not.toHaveBeenCalled();
+            expect(mockAxiosInstance.post).not.toHaveBeenCalled();
+        });
+
+        it('should let a call opt out of a configured dry run', async () => {
+            const client = new CDPClient({ cdpApiKey: 'test-api-key', cdpFallbackEndpoints: [], dryRun: true });
+
+            await client.track('user-123', 'purchase', {}, { dryRun: false });
+
+            expect(mockAxiosInstance.post).toHaveBeenCalledTimes(1);
+        });
+    });
+
+    describe('dual-write outcomes', () => {
+        const dualWriteClient = (config: Partial<CDPConfig> = {}) => {
+            const client = new CDPClient({
+                cdpApiKey: 'test-api-key',
+                cdpFallbackEndpoints: [],
+                sendToCustomerIo: true,
+                customerIo: { siteId: 'site-id', apiKey: 'cio-api-key' },
+                ...config
+            });
+            const cioInstance = latestCioInstance();
+            return { client, cioInstance };
+        };
+
+        it('should report the outcome at each destination', async () => {
+            const { client } = dualWriteClient();
+            mockAxiosInstance.post.mockResolvedValue({ status: 200 });
+
+            await expect(client.identify('user-123', { plan: 'pro' })).resolves.toEqual({
+                operation: 'identify',
+                destinations: {
+                    cdp: { ok: true, durationMs: expect.any(Number) },
+                    customerIo: { ok: true, durationMs: expect.any(Number) }
+                }
+            });
+        });
+
+        it('should write to OpenCDP when Customer.io fails, even with failOnException', async () => {
+            const { client, cioInstance } = dualWriteClient({ failOnException: true });
+            mockAxiosInstance.post.mockResolvedValue({ status: 200 });
+            cioInstance.track.mockRejectedValueOnce(Object.assign(new Error('Service Unavailable'), { statusCode: 503 }));
+
+            const result = await client.results.track('user-123', 'purchase', { amount: 10 });
+
+            expect(mockAxiosInstance.post).toHaveBeenCalledWith('/v1/persons/track', expect.anything(), expect.anything());
+            expect(result).toMatchObject({ ok: false, error: { name: 'CDPServerError', status: 503 } });
+            if (result.ok === false) {
+                expect(result.error.destinations).toMatchObject({ cdp: { ok: true }, customerIo: { ok: false } });
+            }
+        });
+
+        it('should resolve with the Customer.io failure when failOnException is off', async () => {
+            const { client, cioInstance } = dualWriteClient();
+            mockAxiosInstance.post.mockResolvedValue({ status: 200 });
+            cioInstance.addDevice.mockRejectedValueOnce(Object.assign(new Error('Bad Request'), { statusCode: 400 }));
+
+            const report = await client.registerDevice('user-123', { deviceId: 'd1', platform: 'ios', fcmToken: 't' });
+
+            expect(report).toMatchObject({
+                operation: 'registerDevice',
+                destinations: { cdp: { ok: true }, customerIo: { ok: false, error: expect.any(CDPValidationError) } }
+            });
+        });
+
+        it('should write to Customer.io when OpenCDP fails', async () => {
+            const { client, cioInstance } = dualWriteClient();
+            mockAxiosInstance.post.mockRejectedValue({ response: { status: 500, data: { message: 'boom' } } });
+
+            const result = await client.results.identify('user-123', {});
+
+            expect(cioInstance.identify).toHaveBeenCalledWith('user-123', {});
+            expect(result).toMatchObject({
+                ok: false,
+                error: { name: 'CDPServerError', destinations: { cdp: { ok: false }, customerIo: { ok: true } } }
+            });
+        });
+
+        it('should count how often the destinations diverge', async () => {
+            const { client, cioInstance } = dualWriteClient();
+            mockAxiosInstance.post.mockResolvedValue({ status: 200 });
+            cioInstance.track.mockRejectedValueOnce(new Error('socket hang up'));
+
+            await client.track('user-123', 'purchase');
+            await client.track('user-123', 'purchase');
+            mockAxiosInstance.post.mockRejectedValue({ response: { status: 400, data: {} } });
+            await client.track('user-123', 'purchase');
+
+            expect(client.getDualWriteStats()).toEqual({
+                customerIo: { calls: 3, bothOk: 1, cdpOkOnly: 1, destinationOkOnly: 1, bothFailed: 0 }
+            });
+            expect(new CDPClient({ cdpApiKey: 'test-api-key' }).getDualWriteStats()).toEqual({});
+        });
+    });
+
+    describe('destinations', () => {
+        const warehouse = () => ({
+            name: 'warehouse',
+            track: jest.fn<(identifier: string, eventName: string, properties: Record<string, any>, context: { idempotencyKey: string }) => Promise<void>>()
+                .mockResolvedValue(undefined)
+        });
+
+        it('should write calls to custom destinations alongside OpenCDP', async () => {
+            const destination = warehouse();
+            const client = new CDPClient({ cdpApiKey: 'test-api-key', cdpFallbackEndpoints: [], destinations: [destination] });
+            mockAxiosInstance.post.mockResolvedValue({ status: 200 });
+
+            const report = await client.track('user-123', 'purchase', { amount: 10 }, { idempotencyKey: 'purchase-1' });
+
+            expect(destination.track).toHaveBeenCalledWith('user-123', 'purchase', { amount: 10 }, { idempotencyKey: 'purchase-1' });
+            expect(report).toMatchObject({ destinations: { cdp: { ok: true }, warehouse: { ok: true } } });
+            // Destinations only receive the calls they have a hook for
+            await expect(client.identify('user-123', { plan: 'pro' })).resolves.toBeUndefined();
+        });
+
+        it('should isolate a failing destination from OpenCDP and Customer.io', async () => {
+            const destination = warehouse();
+            destination.track.mockRejectedValueOnce(new Error('warehouse down'));
+            const client = new CDPClient({
+                cdpApiKey: 'test-api-key',
+                cdpFallbackEndpoints: [],
+                sendToCustomerIo: true,
+                customerIo: { siteId: 'site-id', apiKey: 'cio-api-key' },
+                destinations: [destination]
+            });
+            const cioInstance = latestCioInstance();
+            mockAxiosInstance.post.mockResolvedValue({ status: 200 });
+
+            const report = await client.track('user-123', 'purchase');
+
+            expect(cioInstance.track).toHaveBeenCalledWith('user-123', { name: 'purchase', data: {} });
+            expect(report).toMatchObject({
+                destinations: { cdp: { ok: true }, customerIo: { ok: true }, warehouse: { ok: false } }
+            });
+            expect(client.getDualWriteStats()).toEqual({
+                customerIo: { calls: 1, bothOk: 1, cdpOkOnly: 0, destinationOkOnly: 0, bothFailed: 0 },
+                warehouse: { calls: 1, bothOk: 0, cdpOkOnly: 1, destinationOkOnly: 0, bothFailed: 0 }
+            });
+        });
+
+        it('should not run custom destinations under the client concurrency limit', async () => {
+            const destination = warehouse();
+            let release!: () => void;
+            destination.track.mockReturnValue(new Promise<void>((resolve) => { release = resolve; }));
+            const client = new CDPClient({
+                cdpApiKey: 'test-api-key',
+                cdpFallbackEndpoints: [],
+                maxConcurrentRequests: 1,
+                destinations: [destination]
+            });
+            mockAxiosInstance.post.mockResolvedValue({ status: 200 });
+
+            const calls = Promise.all([client.track('user-1', 'purchase'), client.track('user-2', 'purchase')]);
+            await new Promise((resolve) => setImmediate(resolve));
+
+            // A slow destination holds no slot, so both OpenCDP requests went out
+            expect(mockAxiosInstance.post).toHaveBeenCalledTimes(2);
+            release();
+            await calls;
+            mockAxiosInstance.post.mockReset();
+        });
+
+        it('should show the call in dry-run reports when a destination has no preview', async () => {
+            const client = new CDPClient({ cdpApiKey: 'test-api-key', cdpFallbackEndpoints: [], destinations: [warehouse()], dryRun: true });
+
+            await expect(client.track('user-123', 'purchase', { amount: 10 })).resolves.toMatchObject({
+                destinations: { warehouse: { operation: 'track', args: ['user-123', 'purchase', { amount: 10 }] } }
+            });
+        });
+
+        it('should reject duplicate destination names', () => {
+            expect(() => new CDPClient({ cdpApiKey: 'test-api-key', destinations: [{ name: 'cdp' }] })).toThrow(
+                'Destination name "cdp" is already in use'
+            );
+            expect(() => new CDPClient({
+                cdpApiKey: 'test-api-key',
+                sendToCustomerIo: true,
+                customerIo: { siteId: 'site-id', apiKey: 'cio-api-key' },
+                destinations: [{ name: 'customerIo' }]
+            })).toThrow(CDPValidationError);
+        });
+    });
+
+    describe('person lifecycle', () => {
+        const primaryUrl = 'https://api.opencdp.io/gateway/data-gateway';
+
+        it('should post suppress, unsuppress, merge and unset calls to OpenCDP', async () => {
+            const client = new CDPClient({ cdpApiKey: 'test-api-key', cdpFallbackEndpoints: [], failOnException: true });
+            mockAxiosInstance.post.mockResolvedValue({ status: 200 });
+
+            await client.suppress('user-123');
+            await client.unsuppress('user-123');
+            await client.mergePersons('user-123', 'user-456');
+            await client.unsetAttributes('user-123', ['plan', 'trial_ends_at']);
+
+            expect(mockAxiosInstance.post.mock.calls).toEqual([
+                ['/v1/persons/suppress', { identifier: 'user-123' }, withIdempotencyKey(primaryUrl)],
+                ['/v1/persons/unsuppress', { identifier: 'user-123' }, withIdempotencyKey(primaryUrl)],
+                ['/v1/persons/merge', { primary: 'user-123', secondary: 'user-456' }, withIdempotencyKey(primaryUrl)],
+                ['/v1/persons/unsetAttributes', { identifier: 'user-123', keys: ['plan', 'trial_ends_at'] }, withIdempotencyKey(primaryUrl)]
+            ]);
+        });
+
+        it('should dual-write lifecycle calls to Customer.io', async () => {
+            const client = new CDPClient({
+                cdpApiKey: 'test-api-key',
+                cdpFallbackEndpoints: [],
+                sendToCustomerIo: true,
+                customerIo: { siteId: 'site-id', apiKey: 'cio-api-key' }
+            });
+            const cioInstance = latestCioInstance();
+            mockAxiosInstance.post.mockResolvedValue({ status: 200 });
+
+            await expect(client.suppress('user-123')).resolves.toMatchObject({
+                operation: 'suppress',
+                destinations: { cdp: { ok: true }, customerIo: { ok: true } }
+            });
+            await client.unsuppress('user-123');
+            await client.mergePersons('user-123', 'user-456');
+            await client.unsetAttributes('user-123', ['plan']);
+
+            expect(cioInstance.suppress).toHaveBeenCalledWith('user-123');
+            expect(cioInstance.unsuppress).toHaveBeenCalledWith('user-123');
+            expect(cioInstance.mergeCustomers).toHaveBeenCalledWith('id', 'user-123', 'id', 'user-456');
+            expect(cioInstance.identify).toHaveBeenCalledWith('user-123', { plan: '' });
+        });
+
+        it('should validate before sending', async () => {
+            const client = new CDPClient({ cdpApiKey: 'test-api-key', cdpFallbackEndpoints: [], failOnException: true });
+
+            await expect(client.suppress('')).rejects.toThrow('Identifier cannot be empty');
+            await expect(client.mergePersons('user-123', '')).rejects.toThrow('Identifier cannot be empty');
+            await expect(client.mergePersons('user-123', 'user-123')).rejects.toThrow('Cannot merge a person into itself');
+            await expect(client.unsetAttributes('user-123', [])).rejects.toThrow('keys must be a non-empty array of attribute names');
+            await expect(client.unsetAttributes('user-123', ['plan', ' '])).rejects.toMatchObject({
+                name: 'CDPValidationError',
+                operation: 'unsetAttributes',
+                message: 'Attribute names cannot be empty'
+            });
+            expect(mockAxiosInstance.post).not.toHaveBeenCalled();
+        });
+
+        it('should support dry run and middleware', async () => {
+            const seen: string[] = [];
+            const client = new CDPClient({
+                cdpApiKey: 'test-api-key',
+                cdpFallbackEndpoints: [],
+                sendToCustomerIo: true,
+                customerIo: { siteId: 'site-id', apiKey: 'cio-api-key' },
+                dryRun: true
+            }).use({ before: (call) => { seen.push(call.operation); } });
+
+            await expect(client.mergePersons('user-123', 'user-456')).resolves.toMatchObject({
+                operation: 'mergePersons',
+                path: '/v1/persons/merge',
+                payload: { primary: 'user-123', secondary: 'user-456' },
+                destinations: { customerIo: { method: 'mergeCustomers', args: ['id', 'user-123', 'id', 'user-456'] } }
+            });
+            expect(seen).toEqual(['mergePersons']);
+            expect(mockAxiosInstance.post).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('device management', () => {
+        const primaryUrl = 'https://api.opencdp.io/gateway/data-gateway';
+
+        it('should post unregister and token updates to OpenCDP', async () => {
+            const client = new CDPClient({ cdpApiKey: 'test-api-key', cdpFallbackEndpoints: [], failOnException: true });
+            mockAxiosInstance.post.mockResolvedValue({ status: 200 });
+
+            await client.unregisterDevice('user-123', 'd1');
+            await client.updateDeviceToken('user-123', 'd2', { platform: 'ios', apnToken: 'apn-2' });
+
+            expect(mockAxiosInstance.post.mock.calls).toEqual([
+                ['/v1/persons/unregisterDevice', { identifier: 'user-123', deviceId: 'd1' }, withIdempotencyKey(primaryUrl)],
+                [
+                    '/v1/persons/updateDeviceToken',
+                    { identifier: 'user-123', deviceId: 'd2', platform: 'ios', apnToken: 'apn-2' },
+                    withIdempotencyKey(primaryUrl)
+                ]
+            ]);
+        });
+
+        it('should dual-write device changes to Customer.io', async () => {
+            const client = new CDPClient({
+                cdpApiKey: 'test-api-key',
+                cdpFallbackEndpoints: [],
+                sendToCustomerIo: true,
+                customerIo: { siteId: 'site-id', apiKey: 'cio-api-key' }
+            });
+            const cioInstance = latestCioInstance();
+            mockAxiosInstance.post.mockResolvedValue({ status: 200 });
+
+            await expect(client.unregisterDevice('user-123', 'd1')).resolves.toMatchObject({
+                operation: 'unregisterDevice',
+                destinations: { cdp: { ok: true }, customerIo: { ok: true } }
+            });
+            await client.updateDeviceToken('user-123', 'd2', { platform: 'android', fcmToken: 'fcm-2' });
+
+            expect(cioInstance.deleteDevice.mock.calls).toEqual([['user-123', 'd1'], ['user-123', 'd2']]);
+            expect(cioInstance.addDevice).toHaveBeenCalledWith('user-123', 'd2', 'android', {
+                deviceId: 'd2',
+                platform: 'android',
+                fcmToken: 'fcm-2'
+            });
+        });
+
+        it('should validate before sending', async () => {
+            const client = new CDPClient({ cdpApiKey: 'test-api-key', cdpFallbackEndpoints: [], failOnException: true });
+
+            await expect(client.unregisterDevice('user-123', ' ')).rejects.toThrow('deviceId cannot be empty');
+            await expect(client.updateDeviceToken('', 'd1', { platform: 'ios', apnToken: 'apn' })).rejects.toThrow('Identifier cannot be empty');
+            await expect(client.updateDeviceToken('user-123', 'd1', { platform: 'ios' })).rejects.toMatchObject({
+                name: 'CDPValidationError',
+                operation: 'updateDeviceToken',
+                message: 'fcmToken or apnToken is required'
+            });
+            expect(mockAxiosInstance.post).not.toHaveBeenCalled();
+        });
+
+        it('should unregister the devices a push response reports as invalid', async () => {
+            const client = new CDPClient({ cdpApiKey: 'test-api-key', cdpFallbackEndpoints: [], failOnException: true });
+            mockAxiosInstance.post.mockImplementation((path: any, body: any) =>
+                body?.deviceId === 'd3'
+                    ? Promise.reject({ response: { status: 400, data: { message: 'unknown device' } } })
+                    : Promise.resolve({ status: 200 })
+            );
+
+            const result = await client.unregisterInvalidDevices('user-123', {
+                delivery_id: 'delivery-1',
+                invalid_devices: [
+                    { device_id: 'd1', token: 'fcm-1', reason: 'unregistered' },
+                    { device_id: 'd1', token: 'apn-1', reason: 'unregistered' },
+                    { device_id: 'd3', token: 'fcm-3' }
+                ]
+            });
+
+            expect(result.unregistered).toEqual(['d1']);
+            expect(result.failed).toEqual([{ deviceId: 'd3', error: expect.objectContaining({ name: 'CDPValidationError', status: 400 }) }]);
+            expect(mockAxiosInstance.post.mock.calls.map(([, body]: any[]) => body.deviceId)).toEqual(['d1', 'd3']);
+            await expect(client.unregisterInvalidDevices('user-123', { delivery_id: 'delivery-2' })).resolves.toEqual({
+                unregistered: [],
+                failed: []
+            });
+            mockAxiosInstance.post.mockReset();
+        });
+    });
+
+    describe('anonymous tracking', () => {
+        const primaryUrl = 'https://api.opencdp.io/gateway/data-gateway';
+
+        it('should post anonymous events and aliases to OpenCDP', async () => {
+            const client = new CDPClient({ cdpApiKey: 'test-api-key', cdpFallbackEndpoints: [], failOnException: true });
+            mockAxiosInstance.post.mockResolvedValue({ status: 200 });
+
+            await client.trackAnonymous('anon-1', 'checkout_started', { cart_value: 42 });
+            await client.alias('anon-1', 'user-123');
+
+            expect(mockAxiosInstance.post.mock.calls).toEqual([
+                [
+                    '/v1/persons/trackAnonymous',
+                    { anonymousId: 'anon-1', eventName: 'checkout_started', properties: { cart_value: 42 } },
+                    withIdempotencyKey(primaryUrl)
+                ],
+                ['/v1/persons/alias', { anonymousId: 'anon-1', identifier: 'user-123' }, withIdempotencyKey(primaryUrl)]
+            ]);
+        });
+
+        it('should map to Customer.io anonymous events and merge them on identify', async () => {
+            const client = new CDPClient({
+                cdpApiKey: 'test-api-key',
+                cdpFallbackEndpoints: [],
+                sendToCustomerIo: true,
+                customerIo: { siteId: 'site-id', apiKey: 'cio-api-key' }
+            });
+            const cioInstance = latestCioInstance();
+            mockAxiosInstance.post.mockResolvedValue({ status: 200 });
+
+            await expect(client.trackAnonymous('anon-1', 'checkout_started')).resolves.toMatchObject({
+                operation: 'trackAnonymous',
+                destinations: { cdp: { ok: true }, customerIo: { ok: true } }
+            });
+            await client.alias('anon-1', 'user-123');
+
+            expect(cioInstance.trackAnonymous).toHaveBeenCalledWith('anon-1', { name: 'checkout_started', data: {} });
+            expect(cioInstance.identify).toHaveBeenCalledWith('user-123', { anonymous_id: 'anon-1' });
+        });
+
+        it('should validate, apply the tracking plan and redact properties', async () => {
+            const client = new CDPClient({
+                cdpApiKey: 'test-api-key',
+                cdpFallbackEndpoints: [],
+                failOnException: true,
+                dryRun: true,
+                pii: { rules: [{ path: 'email', action: 'drop' }] },
+                trackingPlan: { mode: 'strict', events: { checkout_started: { type: 'object', required: ['cart_value'] } } }
+            });
+
+            await expect(client.trackAnonymous(' ', 'checkout_started')).rejects.toThrow('anonymousId cannot be empty');
+            await expect(client.alias('anon-1', '')).rejects.toThrow('Identifier cannot be empty');
+            await expect(client.trackAnonymous('anon-1', 'checkout_started', {})).rejects.toMatchObject({
+                name: 'CDPTrackingPlanError',
+                operation: 'trackAnonymous'
+            });
+            await expect(
+                client.trackAnonymous('anon-1', 'checkout_started', { cart_value: 42, email: 'jane@example.com' })
+            ).resolves.toMatchObject({
+                operation: 'trackAnonymous',
+                payload: { anonymousId: 'anon-1', eventName: 'checkout_started', properties: { cart_value: 42 } }
+            });
+            expect(mockAxiosInstance.post).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('page and screen views', () => {
+        const primaryUrl = 'https://api.opencdp.io/gateway/data-gateway';
+
+        it('should send page and screen views as well-known track events', async () => {
+            const client = new CDPClient({ cdpApiKey: 'test-api-key', cdpFallbackEndpoints: [], failOnException: true });
+            mockAxiosInstance.post.mockResolvedValue({ status: 200 });
+
+            await client.page('user-123', 'Pricing', {
+                url: 'https://example.com/pricing?plan=pro',
+                path: '/pricing',
+                referrer: '',
+                title: 'Pricing - Example',
+                experiment: 'b'
+            });
+            await client.screen('user-123', 'Checkout', { appVersion: '2.4.1', screenClass: 'CheckoutViewController' });
+
+            expect(mockAxiosInstance.post.mock.calls).toEqual([
+                [
+                    '/v1/persons/track',
+                    {
+                        identifier: 'user-123',
+                        eventName: 'page_view',
+                        properties: {
+                            name: 'Pricing',
+                            url: 'https://example.com/pricing?plan=pro',
+                            path: '/pricing',
+                            referrer: '',
+                            title: 'Pricing - Example',
+                            experiment: 'b'
+                        }
+                    },
+                    withIdempotencyKey(primaryUrl)
+                ],
+                [
+                    '/v1/persons/track',
+                    {
+                        identifier: 'user-123',
+                        eventName: 'screen_view',
+                        properties: { name: 'Checkout', appVersion: '2.4.1', screenClass: 'CheckoutViewController' }
+                    },
+                    withIdempotencyKey(primaryUrl)
+                ]
+            ]);
+        });
+
+        it('should validate the standard properties, also when tracked directly', async () => {
+            const client = new CDPClient({ cdpApiKey: 'test-api-key', cdpFallbackEndpoints: [], failOnException: true });
+
+            await expect(client.page('user-123', ' ')).rejects.toThrow('Page name cannot be empty');
+            await expect(client.page('user-123', 'Pricing', { url: '/pricing' })).rejects.toThrow(
+                'Page property url must be an absolute http(s) URL'
+            );
+            await expect(client.page('user-123', 'Pricing', { path: 'pricing' })).rejects.toThrow('Page property path must start with /');
+            await expect(client.screen('user-123', 'Checkout', { appVersion: 2 as any })).rejects.toMatchObject({
+                name: 'CDPValidationError',
+                operation: 'track',
+                message: 'Screen property appVersion must be a string'
+            });
+            await expect(client.track('user-123', 'page_view', { url: 'https://example.com' })).rejects.toThrow(
+                'Page name cannot be empty'
+            );
+            expect(mockAxiosInstance.post).not.toHaveBeenCalled();
+        });
+
+        it('should show page views to middleware as track calls', async () => {
+            const seen: any[] = [];
+            const client = new CDPClient({ cdpApiKey: 'test-api-key', cdpFallbackEndpoints: [], dryRun: true })
+                .use({ before: (call) => { seen.push(call); } });
+
+            await client.page('user-123', 'Home', { path: '/' });
+
+            expect(seen).toEqual([
+                { operation: 'track', identifier: 'user-123', payload: { eventName: 'page_view', properties: { name: 'Home', path: '/' } } }
+            ]);
+        });
+    });
+
+    describe('groups', () => {
+        const primaryUrl = 'https://api.opencdp.io/gateway/data-gateway';
+
+        it('should post group and identifyGroup calls to OpenCDP', async () => {
+            const client = new CDPClient({ cdpApiKey: 'test-api-key', cdpFallbackEndpoints: [], failOnException: true });
+            mockAxiosInstance.post.mockResolvedValue({ status: 200 });
+
+            await client.identifyGroup('acme', { plan: 'enterprise', seats: 40 });
+            await client.group('user-123', 'acme', { role_count: 3 });
+            await client.group('user-456', 'acme');
+
+            expect(mockAxiosInstance.post.mock.calls).toEqual([
+                ['/v1/groups/identify', { groupId: 'acme', traits: { plan: 'enterprise', seats: 40 } }, withIdempotencyKey(primaryUrl)],
+                ['/v1/persons/group', { identifier: 'user-123', groupId: 'acme', traits: { role_count: 3 } }, withIdempotencyKey(primaryUrl)],
+                ['/v1/persons/group', { identifier: 'user-456', groupId: 'acme', traits: {} }, withIdempotencyKey(primaryUrl)]
+            ]);
+        });
+
+        it('should write groups to Customer.io as objects related to the person', async () => {
+            const client = new CDPClient({
+                cdpApiKey: 'test-api-key',
+                cdpFallbackEndpoints: [],
+                sendToCustomerIo: true,
+                customerIo: { siteId: 'site-id', apiKey: 'cio-api-key', objectTypeId: '2' }
+            });
+            const cioInstance = latestCioInstance();
+            mockAxiosInstance.post.mockResolvedValue({ status: 200 });
+
+            await expect(client.group('user-123', 'acme', { plan: 'enterprise' })).resolves.toMatchObject({
+                operation: 'group',
+                destinations: { cdp: { ok: true }, customerIo: { ok: true } }
+            });
+            await client.identifyGroup('acme', { seats: 40 });
+
+            expect(cioInstance.request.post.mock.calls).toEqual([
+                [
+                    'https://track.customer.io/api/v2/entity',
+                    {
+                        type: 'object',
+                        identifiers: { object_type_id: '2', object_id: 'acme' },
+                        action: 'identify',
+                        attributes: { plan: 'enterprise' },
+                        cio_relationships: [{ identifiers: { id: 'user-123' } }]
+                    }
+                ],
+                [
+                    'https://track.customer.io/api/v2/entity',
+                    {
+                        type: 'object',
+                        identifiers: { object_type_id: '2', object_id: 'acme' },
+                        action: 'identify',
+                        attributes: { seats: 40 }
+                    }
+                ]
+            ]);
+        });
+
+        it('should validate before sending and show groups to middleware', async () => {
+            const seen: any[] = [];
+            const client = new CDPClient({ cdpApiKey: 'test-api-key', cdpFallbackEndpoints: [], failOnException: true })
+                .use({ before: (call) => { seen.push(call); } });
+
+            await expect(client.identifyGroup(' ', { plan: 'pro' })).rejects.toThrow('groupId cannot be empty');
+            await expect(client.group('', 'acme')).rejects.toThrow('Identifier cannot be empty');
+            await expect(client.group('user-123', 'acme', [] as any)).rejects.toMatchObject({
+                name: 'CDPValidationError',
+                operation: 'group',
+                message: 'Properties must be a valid object'
+            });
+            expect(mockAxiosInstance.post).not.toHaveBeenCalled();
+            expect(seen[0]).toEqual({ operation: 'identifyGroup', payload: { groupId: ' ', traits: { plan: 'pro' } } });
+        });
+    });
+
+    describe('segment membership', () => {
+        const primaryUrl = 'https://api.opencdp.io/gateway/data-gateway';
+
+        it('should send identifiers in chunks and report every chunk', async () => {
+            const client = new CDPClient({ cdpApiKey: 'test-api-key', cdpFallbackEndpoints: [] });
+            mockAxiosInstance.post.mockImplementation((path: any, body: any) =>
+                body.identifiers.includes('user-3')
+                    ? Promise.reject({ response: { status: 400, data: { message: 'unknown person' } } })
+                    : Promise.resolve({ status: 200 })
+            );
+
+            const report = await client.addToSegment(
+                'beta-access',
+                ['user-1', 'user-2', 'user-2', 'user-3', 'user-4'],
+                { chunkSize: 2, idempotencyKey: 'beta-1' }
+            );
+
+            expect(mockAxiosInstance.post.mock.calls).toEqual([
+                ['/v1/segments/add', { segmentId: 'beta-access', identifiers: ['user-1', 'user-2'] }, withIdempotencyKey(primaryUrl, 'beta-1:0')],
+                ['/v1/segments/add', { segmentId: 'beta-access', identifiers: ['user-3', 'user-4'] }, withIdempotencyKey(primaryUrl, 'beta-1:1')]
+            ]);
+            expect(report).toEqual({
+                operation: 'addToSegment',
+                segmentId: 'beta-access',
+                total: 4,
+                succeeded: 2,
+                failed: 2,
+                chunks: [
+                    { index: 0, identifiers: ['user-1', 'user-2'], idempotencyKey: 'beta-1:0', ok: true, queued: false },
+                    {
+                        index: 1,
+                        identifiers: ['user-3', 'user-4'],
+                        idempotencyKey: 'beta-1:1',
+                        ok: false,
+                        error: expect.objectContaining({ name: 'CDPValidationError', status: 400, operation: 'addToSegment' })
+                    }
+                ]
+            });
+            mockAxiosInstance.post.mockReset();
+        });
+
+        it('should run chunks under the concurrency limit', async () => {
+            const client = new CDPClient({ cdpApiKey: 'test-api-key', cdpFallbackEndpoints: [], maxConcurrentRequests: 2 });
+            let inFlight = 0;
+            let maxInFlight = 0;
+            mockAxiosInstance.post.mockImplementation(async () => {
+                inFlight++;
+                maxInFlight = Math.max(maxInFlight, inFlight);
+                await new Promise((resolve) => setTimeout(resolve, 5));
+                inFlight--;
+                return { status: 200 };
+            });
+            const identifiers = Array.from({ length: 2500 }, (_, i) => `user-${i}`);
+
+            const report = await client.removeFromSegment('beta-access', identifiers, { chunkSize: 500 });
+
+            expect(mockAxiosInstance.post).toHaveBeenCalledTimes(5);
+            expect(mockAxiosInstance.post.mock.calls[0][0]).toBe('/v1/segments/remove');
+            expect(maxInFlight).toBe(2);
+            expect(report).toMatchObject({ total: 2500, succeeded: 2500, failed: 0 });
+            mockAxiosInstance.post.mockReset();
+        });
+
+        it('should validate before sending and describe chunks in dry run', async () => {
+            const client = new CDPClient({ cdpApiKey: 'test-api-key', cdpFallbackEndpoints: [], failOnException: true });
+
+            await expect(client.addToSegment('', ['user-1'])).rejects.toThrow('segmentId cannot be empty');
+            await expect(client.addToSegment('beta-access', [])).rejects.toThrow('identifiers must be a non-empty array');
+            await expect(client.removeFromSegment('beta-access', ['user-1', ' '])).rejects.toMatchObject({
+                name: 'CDPValidationError',
+                operation: 'removeFromSegment',
+                message: 'Identifier cannot be empty'
+            });
+
+            const report = await client.addToSegment('beta-access', ['user-1', 'user-2', 'user-3'], { chunkSize: 2, dryRun: true });
+            expect((report as any).chunks.map((chunk: any) => chunk.dryRun.payload)).toEqual([
+                { segmentId: 'beta-access', identifiers: ['user-1', 'user-2'] },
+                { segmentId: 'beta-access', identifiers: ['user-3'] }
+            ]);
+            expect(mockAxiosInstance.post).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('subscription preferences', () => {
+        const primaryUrl = 'https://api.opencdp.io/gateway/data-gateway';
+
+        it('should read preferences from OpenCDP', async () => {
+            const client = new CDPClient({ cdpApiKey: 'test-api-key', cdpFallbackEndpoints: [], failOnException: true });
+            mockAxiosInstance.get.mockResolvedValueOnce({ status: 200, data: { unsubscribed: false, topics: { topic_1: true } } });
+            mockAxiosInstance.get.mockResolvedValueOnce({ status: 200, data: {} });
+
+            await expect(client.getSubscriptionPreferences('jane@example.com')).resolves.toEqual({
+                unsubscribed: false,
+                topics: { topic_1: true }
+            });
+            await expect(client.getSubscriptionPreferences('user-123')).resolves.toEqual({ unsubscribed: false, topics: {} });
+            expect(mockAxiosInstance.get).toHaveBeenCalledWith(
+                '/v1/persons/subscriptionPreferences?identifier=jane%40example.com',
+                { baseURL: primaryUrl }
+            );
+        });
+
+        it('should post preference changes to OpenCDP', async () => {
+            const client = new CDPClient({ cdpApiKey: 'test-api-key', cdpFallbackEndpoints: [], failOnException: true });
+            mockAxiosInstance.post.mockResolvedValue({ status: 200 });
+
+            await client.updateSubscriptionPreferences('user-123', { topics: { topic_1: true, topic_3: false } });
+            await client.unsubscribe('user-123');
+            await client.resubscribe('user-123');
+
+            expect(mockAxiosInstance.post.mock.calls).toEqual([
+                [
+                    '/v1/persons/updateSubscriptionPreferences',
+                    { identifier: 'user-123', topics: { topic_1: true, topic_3: false } },
+                    withIdempotencyKey(primaryUrl)
+                ],
+                ['/v1/persons/unsubscribe', { identifier: 'user-123' }, withIdempotencyKey(primaryUrl)],
+                ['/v1/persons/resubscribe', { identifier: 'user-123' }, withIdempotencyKey(primaryUrl)]
+            ]);
+        });
+
+        it('should write preferences to Customer.io as subscription attributes', async () => {
+            const client = new CDPClient({
+                cdpApiKey: 'test-api-key',
+                cdpFallbackEndpoints: [],
+                sendToCustomerIo: true,
+                customerIo: { siteId: 'site-id', apiKey: 'cio-api-key' }
+            });
+            const cioInstance = latestCioInstance();
+            mockAxiosInstance.post.mockResolvedValue({ status: 200 });
+
+            await expect(
+                client.updateSubscriptionPreferences('user-123', { topics: { topic_1: true, topic_3: false } })
+            ).resolves.toMatchObject({
+                operation: 'updateSubscriptionPreferences',
+                destinations: { cdp: { ok: true }, customerIo: { ok: true } }
+            });
+            await client.unsubscribe('user-123');
+            await client.resubscribe('user-123');
+
+            expect(cioInstance.identify.mock.calls).toEqual([
+                [
+                    'user-123',
+                    {
+                        'cio_subscription_preferences.topics.topic_1': true,
+                        'cio_subscription_preferences.topics.topic_3': false
+                    }
+                ],
+                ['user-123', { unsubscribed: true }],
+                ['user-123', { unsubscribed: false }]
+            ]);
+        });
+
+        it('should validate topics before sending', async () => {
+            const client = new CDPClient({ cdpApiKey: 'test-api-key', cdpFallbackEndpoints: [], failOnException: true });
+
+            await expect(client.getSubscriptionPreferences('')).rejects.toThrow('Identifier cannot be empty');
+            await expect(client.updateSubscriptionPreferences('user-123', { topics: {} })).rejects.toThrow(
+                'topics must be a non-empty object'
+            );
+            await expect(
+                client.updateSubscriptionPreferences('user-123', { topics: { newsletter: true } as any })
+            ).rejects.toThrow('Invalid topic id newsletter: expected topic_<number>');
+            await expect(
+                client.updateSubscriptionPreferences('user-123', { topics: { topic_2: 'yes' as any } })
+            ).rejects.toMatchObject({
+                name: 'CDPValidationError',
+                operation: 'updateSubscriptionPreferences',
+                message: 'Topic topic_2 must be true or false'
+            });
+            expect(mockAxiosInstance.post).not.toHaveBeenCalled();
+            expect(mockAxiosInstance.get).not.toHaveBeenCalled();
         });
     });
 });
\ No newline at end of file
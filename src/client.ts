@@ -1,8 +1,75 @@
 import axios, { AxiosInstance } from "axios";
-import { RegionEU, RegionUS, TrackClient } from "customerio-node";
 import pLimit from "p-limit";
-import { CDPConfig, Logger, SendEmailRequest, SendPushRequest, SendSmsRequest } from "./types";
+import { randomUUID } from "crypto";
+import {
+  CallOptions,
+  CDPConfig,
+  CDPOperation,
+  CDPResult,
+  DeliveryReport,
+  DestinationOutcome,
+  DeviceRegistrationParameters,
+  DeviceTokenUpdate,
+  DivergenceStats,
+  DryRunReport,
+  EventMap,
+  EventName,
+  GatewayStatus,
+  Logger,
+  OfflineQueueStats,
+  PageProperties,
+  SendEmailRequest,
+  SendPushRequest,
+  ScreenProperties,
+  SegmentChunkResult,
+  SegmentMembershipOptions,
+  SegmentMembershipReport,
+  SendPushResponse,
+  SendSmsRequest,
+  SubscriptionPreferences,
+  SubscriptionPreferencesUpdate,
+  TopicPreferences,
+  TrackingPlan,
+  TraitMap,
+  UnregisterInvalidDevicesResult,
+} from "./types";
 import { resolveAllBaseUrls } from "./gateway_urls";
+import { BatchItem, BatchQueue } from "./batch_queue";
+import { DEFAULT_OFFLINE_REPLAY_INTERVAL_MS, OfflineQueue } from "./offline_queue";
+import { resolveRetryPolicy, retryDelay, sleep } from "./retry";
+import {
+  CDPCircuitOpenError,
+  CDPError,
+  CDPTrackingPlanError,
+  CDPValidationError,
+  isRetryableError,
+  toCDPError,
+} from "./errors";
+import { CircuitBreaker, orderByHealth, rankByHealth } from "./circuit_breaker";
+import { createRedactingLogger, PiiRedactor } from "./pii";
+import {
+  CustomerIoDestination,
+  deliver,
+  Destination,
+  DestinationCall,
+  DestinationContext,
+  handles,
+} from "./destinations";
+import { formatViolations, TrackingPlanValidator } from "./tracking_plan";
+import {
+  PAGE_VIEW_EVENT,
+  pageViewProperties,
+  SCREEN_VIEW_EVENT,
+  screenViewProperties,
+  validateStandardProperties,
+} from "./standard_events";
+import {
+  CallEnvelope,
+  identifierOf,
+  Middleware,
+  runAfterMiddleware,
+  runBeforeMiddleware,
+} from "./middleware";
 
 /**
  * Validates that the identifier is not empty
@@ -14,7 +81,104 @@ function validateIdentifier(identifier: string | number): void {
     identifier === "" ||
     (typeof identifier === "string" && identifier.trim() === "")
   ) {
-    throw new Error("Identifier cannot be empty");
+    throw new CDPValidationError("Identifier cannot be empty");
+  }
+}
+
+/**
+ * Validates the id an anonymous visitor is tracked under
+ */
+function validateAnonymousId(anonymousId: string): void {
+  if (typeof anonymousId !== "string" || anonymousId.trim() === "") {
+    throw new CDPValidationError("anonymousId cannot be empty");
+  }
+}
+
+/**
+ * Validates the id of a group (account, company, workspace)
+ */
+function validateGroupId(groupId: string): void {
+  if (typeof groupId !== "string" || groupId.trim() === "") {
+    throw new CDPValidationError("groupId cannot be empty");
+  }
+}
+
+/**
+ * Validates a segment membership change and returns its identifiers without duplicates
+ */
+function validateSegmentMembership(segmentId: string, identifiers: string[]): string[] {
+  if (typeof segmentId !== "string" || segmentId.trim() === "") {
+    throw new CDPValidationError("segmentId cannot be empty");
+  }
+  if (!Array.isArray(identifiers) || identifiers.length === 0) {
+    throw new CDPValidationError("identifiers must be a non-empty array");
+  }
+  identifiers.forEach(validateIdentifier);
+  return Array.from(new Set(identifiers));
+}
+
+/**
+ * Validates the topics of a subscription preferences update
+ */
+function validateTopics(topics: TopicPreferences): void {
+  if (!topics || typeof topics !== "object" || Array.isArray(topics) || Object.keys(topics).length === 0) {
+    throw new CDPValidationError("topics must be a non-empty object");
+  }
+  for (const [topic, subscribed] of Object.entries(topics)) {
+    if (!/^topic_\d+$/.test(topic)) {
+      throw new CDPValidationError(`Invalid topic id ${topic}: expected topic_<number>`);
+    }
+    if (typeof subscribed !== "boolean") {
+      throw new CDPValidationError(`Topic ${topic} must be true or false`);
+    }
+  }
+}
+
+/**
+ * Validates the two people of a merge
+ */
+function validateMerge(primary: string, secondary: string): void {
+  validateIdentifier(primary);
+  validateIdentifier(secondary);
+  if (String(primary) === String(secondary)) {
+    throw new CDPValidationError("Cannot merge a person into itself");
+  }
+}
+
+/**
+ * Validates the attribute names passed to unsetAttributes
+ */
+function validateAttributeKeys(keys: string[]): void {
+  if (!Array.isArray(keys) || keys.length === 0) {
+    throw new CDPValidationError("keys must be a non-empty array of attribute names");
+  }
+  if (keys.some((key) => typeof key !== "string" || key.trim() === "")) {
+    throw new CDPValidationError("Attribute names cannot be empty");
+  }
+}
+
+/**
+ * Validates the device a device call is about
+ */
+function validateDevice(identifier: string, deviceId: string): void {
+  validateIdentifier(identifier);
+  if (typeof deviceId !== "string" || deviceId.trim() === "") {
+    throw new CDPValidationError("deviceId cannot be empty");
+  }
+}
+
+/**
+ * Validates that a token update carries at least one token
+ */
+function validateDeviceTokens(tokens: DeviceTokenUpdate): void {
+  if (!tokens || typeof tokens !== "object") {
+    throw new CDPValidationError("tokens must be an object");
+  }
+  const hasToken = [tokens.fcmToken, tokens.apnToken].some(
+    (token) => typeof token === "string" && token.trim() !== ""
+  );
+  if (!hasToken) {
+    throw new CDPValidationError("fcmToken or apnToken is required");
   }
 }
 
@@ -23,7 +187,7 @@ function validateIdentifier(identifier: string | number): void {
  */
 function validateEventName(eventName: string): void {
   if (!eventName || eventName.trim() === "") {
-    throw new Error("Event name cannot be empty");
+    throw new CDPValidationError("Event name cannot be empty");
   }
 }
 
@@ -36,9 +200,9 @@ function validateProperties(
   if (properties === null || properties === undefined) {
     return {};
   }
-  // if (typeof properties !== 'object' || Array.isArray(properties)) {
-  //     throw new Error('Properties must be a valid object');
-  // }
+  if (typeof properties !== "object" || Array.isArray(properties)) {
+    throw new CDPValidationError("Properties must be a valid object");
+  }
   return properties;
 }
 
@@ -47,12 +211,12 @@ function validateProperties(
  */
 function validateEmail(email: string): void {
   if (!email || email.trim() === "") {
-    throw new Error("Email address cannot be empty");
+    throw new CDPValidationError("Email address cannot be empty");
   }
   // Basic email validation
   const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
   if (!emailRegex.test(email)) {
-    throw new Error("Invalid email address format");
+    throw new CDPValidationError("Invalid email address format");
   }
 }
 
@@ -64,13 +228,13 @@ function validateSendEmailRequest(request: SendEmailRequest): void {
 
   // Validate required fields
   if (!message.to) {
-    throw new Error("to is required");
+    throw new CDPValidationError("to is required");
   }
   validateEmail(message.to);
 
   // Validate identifiers - must contain exactly one of: id or email
   if (!message.identifiers) {
-    throw new Error("identifiers is required");
+    throw new CDPValidationError("identifiers is required");
   }
 
   const hasId =
@@ -85,13 +249,13 @@ function validateSendEmailRequest(request: SendEmailRequest): void {
     message.identifiers.email !== "";
 
   if (!hasId && !hasEmail) {
-    throw new Error(
+    throw new CDPValidationError(
       "identifiers must contain exactly one of: id, email, or cdp_id"
     );
   }
 
   if (hasId && hasEmail) {
-    throw new Error(
+    throw new CDPValidationError(
       "identifiers must contain exactly one of: id, email, or cdp_id"
     );
   }
@@ -124,7 +288,7 @@ function validateSendEmailRequest(request: SendEmailRequest): void {
   // Validate send_at if provided
   if (message.send_at !== undefined) {
     if (!Number.isInteger(message.send_at) || message.send_at < 0) {
-      throw new Error("send_at must be a positive integer");
+      throw new CDPValidationError("send_at must be a positive integer");
     }
   }
 
@@ -135,7 +299,7 @@ function validateSendEmailRequest(request: SendEmailRequest): void {
     message.body !== null &&
     message.body.trim() === ""
   ) {
-    throw new Error("body cannot be empty if provided");
+    throw new CDPValidationError("body cannot be empty if provided");
   }
 
   if (
@@ -143,7 +307,7 @@ function validateSendEmailRequest(request: SendEmailRequest): void {
     message.amp_body !== null &&
     message.amp_body.trim() === ""
   ) {
-    throw new Error("amp_body cannot be empty if provided");
+    throw new CDPValidationError("amp_body cannot be empty if provided");
   }
 
   if (
@@ -151,13 +315,13 @@ function validateSendEmailRequest(request: SendEmailRequest): void {
     message.plaintext_body !== null &&
     message.plaintext_body.trim() === ""
   ) {
-    throw new Error("plaintext_body cannot be empty if provided");
+    throw new CDPValidationError("plaintext_body cannot be empty if provided");
   }
 
   // Validate headers if provided
   if (message.headers !== undefined) {
     if (typeof message.headers !== "object" || Array.isArray(message.headers)) {
-      throw new Error("headers must be an object");
+      throw new CDPValidationError("headers must be an object");
     }
   }
 
@@ -179,7 +343,7 @@ function validateSendEmailRequest(request: SendEmailRequest): void {
     }
 
     if (errors.length > 0) {
-      throw new Error(`When not using a template: ${errors.join(", ")}`);
+      throw new CDPValidationError(`When not using a template: ${errors.join(", ")}`);
     }
   }
 }
@@ -190,7 +354,7 @@ function validateSendEmailRequest(request: SendEmailRequest): void {
 function validateSendPushRequest(request: SendPushRequest): void {
   // Validate required fields
   if (!request.identifiers) {
-    throw new Error("identifiers is required");
+    throw new CDPValidationError("identifiers is required");
   }
 
   const hasId =
@@ -210,19 +374,19 @@ function validateSendPushRequest(request: SendPushRequest): void {
     request.identifiers.cdp_id !== "";
 
   if (!hasId && !hasEmail && !hasCdpId) {
-    throw new Error(
+    throw new CDPValidationError(
       "identifiers must contain exactly one of: id, email, or cdp_id"
     );
   }
 
   if ((hasId ? 1 : 0) + (hasEmail ? 1 : 0) + (hasCdpId ? 1 : 0) > 1) {
-    throw new Error(
+    throw new CDPValidationError(
       "identifiers must contain exactly one of: id, email, or cdp_id"
     );
   }
 
   if (!request.transactional_message_id) {
-    throw new Error("transactional_message_id is required");
+    throw new CDPValidationError("transactional_message_id is required");
   }
 
   // Validate body field
@@ -231,7 +395,7 @@ function validateSendPushRequest(request: SendPushRequest): void {
     request.body !== null &&
     request.body.trim() === ""
   ) {
-    throw new Error("body cannot be empty if provided");
+    throw new CDPValidationError("body cannot be empty if provided");
   }
 }
 
@@ -240,12 +404,12 @@ function validateSendPushRequest(request: SendPushRequest): void {
  */
 function validatePhoneNumber(phone: string): void {
   if (!phone || phone.trim() === "") {
-    throw new Error("Phone number cannot be empty");
+    throw new CDPValidationError("Phone number cannot be empty");
   }
   // E.164 format: ^\+?[1-9]\d{1,14}$
   const phoneRegex = /^\+?[1-9]\d{1,14}$/;
   if (!phoneRegex.test(phone)) {
-    throw new Error("Phone number must be in international format (e.g., +1234567890)");
+    throw new CDPValidationError("Phone number must be in international format (e.g., +1234567890)");
   }
 }
 
@@ -255,7 +419,7 @@ function validatePhoneNumber(phone: string): void {
 function validateSendSmsRequest(request: SendSmsRequest): void {
   // Validate required fields
   if (!request.identifiers) {
-    throw new Error("identifiers is required");
+    throw new CDPValidationError("identifiers is required");
   }
 
   const hasId =
@@ -275,13 +439,13 @@ function validateSendSmsRequest(request: SendSmsRequest): void {
     request.identifiers.cdp_id !== "";
 
   if (!hasId && !hasEmail && !hasCdpId) {
-    throw new Error(
+    throw new CDPValidationError(
       "identifiers must contain exactly one of: id, email, or cdp_id"
     );
   }
 
   if ((hasId ? 1 : 0) + (hasEmail ? 1 : 0) + (hasCdpId ? 1 : 0) > 1) {
-    throw new Error(
+    throw new CDPValidationError(
       "identifiers must contain exactly one of: id, email, or cdp_id"
     );
   }
@@ -292,7 +456,7 @@ function validateSendSmsRequest(request: SendSmsRequest): void {
     request.transactional_message_id !== "";
 
   if (!hasTemplateId && !request.body) {
-    throw new Error("body is required when not using a template");
+    throw new CDPValidationError("body is required when not using a template");
   }
 
   // Validate phone number format if to is provided
@@ -311,7 +475,7 @@ function validateSendSmsRequest(request: SendSmsRequest): void {
     request.body !== null &&
     request.body.trim() === ""
   ) {
-    throw new Error("body cannot be empty if provided");
+    throw new CDPValidationError("body cannot be empty if provided");
   }
 
   // Validate message_data is an object if provided
@@ -321,40 +485,378 @@ function validateSendSmsRequest(request: SendSmsRequest): void {
       typeof request.message_data !== "object" ||
       Array.isArray(request.message_data)
     ) {
-      throw new Error("message_data must be an object");
+      throw new CDPValidationError("message_data must be an object");
     }
   }
 }
 
-interface DeviceRegistrationParameters {
-  deviceId: string;
-  name?: string;
-  platform: "android" | "ios" | "web";
-  osVersion?: string;
-  model?: string;
-  fcmToken: string;
-  apnToken?: string;
-  appVersion?: string;
-  last_active_at?: string;
-  attributes?: Record<string, any>;
+/**
+ * Compact, log-friendly view of an error.
+ * NB: Avoid logging large error objects directly to reduce memory footprint on high traffic apps
+ */
+function summarizeError(error: any): Record<string, any> {
+  return {
+    message: error?.message,
+    code: error?.code,
+    status: error?.status,
+    operation: error?.operation,
+    gatewayUrl: error?.gatewayUrl,
+  };
+}
+
+/**
+ * Returns the caller-supplied idempotency key, or a fresh one for this logical call
+ */
+function resolveIdempotencyKey(options?: CallOptions): string {
+  const key = options?.idempotencyKey;
+  return key && key.trim() !== "" ? key : randomUUID();
+}
+
+interface RequestOptions {
+  operation: CDPOperation;
+  /**
+   * Sent as the Idempotency-Key header on every attempt, across all base URLs
+   */
+  idempotencyKey?: string;
+}
+
+/**
+ * Result-returning variants of the CDPClient operations, available as `client.results`
+ */
+export interface CDPResultClient<Events extends object = EventMap, Traits extends object = TraitMap> {
+  ping(): Promise<CDPResult<DryRunReport | void>>;
+  identify(
+    identifier: string,
+    properties?: Partial<Traits>,
+    options?: CallOptions
+  ): Promise<CDPResult<DryRunReport | DeliveryReport | void>>;
+  track<E extends EventName<Events>>(
+    identifier: string,
+    eventName: E,
+    properties?: Events[E],
+    options?: CallOptions
+  ): Promise<CDPResult<DryRunReport | DeliveryReport | void>>;
+  trackAnonymous<E extends EventName<Events>>(
+    anonymousId: string,
+    eventName: E,
+    properties?: Events[E],
+    options?: CallOptions
+  ): Promise<CDPResult<DryRunReport | DeliveryReport | void>>;
+  group(
+    identifier: string,
+    groupId: string,
+    traits?: Record<string, any>,
+    options?: CallOptions
+  ): Promise<CDPResult<DryRunReport | DeliveryReport | void>>;
+  identifyGroup(
+    groupId: string,
+    traits?: Record<string, any>,
+    options?: CallOptions
+  ): Promise<CDPResult<DryRunReport | DeliveryReport | void>>;
+  addToSegment(
+    segmentId: string,
+    identifiers: string[],
+    options?: SegmentMembershipOptions
+  ): Promise<CDPResult<SegmentMembershipReport | void>>;
+  removeFromSegment(
+    segmentId: string,
+    identifiers: string[],
+    options?: SegmentMembershipOptions
+  ): Promise<CDPResult<SegmentMembershipReport | void>>;
+  getSubscriptionPreferences(
+    identifier: string,
+    options?: CallOptions
+  ): Promise<CDPResult<SubscriptionPreferences | DryRunReport | void>>;
+  updateSubscriptionPreferences(
+    identifier: string,
+    update: SubscriptionPreferencesUpdate,
+    options?: CallOptions
+  ): Promise<CDPResult<DryRunReport | DeliveryReport | void>>;
+  unsubscribe(identifier: string, options?: CallOptions): Promise<CDPResult<DryRunReport | DeliveryReport | void>>;
+  resubscribe(identifier: string, options?: CallOptions): Promise<CDPResult<DryRunReport | DeliveryReport | void>>;
+  page(
+    identifier: string,
+    name: string,
+    properties?: PageProperties,
+    options?: CallOptions
+  ): Promise<CDPResult<DryRunReport | DeliveryReport | void>>;
+  screen(
+    identifier: string,
+    name: string,
+    properties?: ScreenProperties,
+    options?: CallOptions
+  ): Promise<CDPResult<DryRunReport | DeliveryReport | void>>;
+  alias(
+    anonymousId: string,
+    identifier: string,
+    options?: CallOptions
+  ): Promise<CDPResult<DryRunReport | DeliveryReport | void>>;
+  registerDevice(
+    identifier: string,
+    deviceRegistrationParameters: DeviceRegistrationParameters,
+    options?: CallOptions
+  ): Promise<CDPResult<DryRunReport | DeliveryReport | void>>;
+  suppress(identifier: string, options?: CallOptions): Promise<CDPResult<DryRunReport | DeliveryReport | void>>;
+  unsuppress(identifier: string, options?: CallOptions): Promise<CDPResult<DryRunReport | DeliveryReport | void>>;
+  mergePersons(
+    primary: string,
+    secondary: string,
+    options?: CallOptions
+  ): Promise<CDPResult<DryRunReport | DeliveryReport | void>>;
+  unsetAttributes(
+    identifier: string,
+    keys: string[],
+    options?: CallOptions
+  ): Promise<CDPResult<DryRunReport | DeliveryReport | void>>;
+  unregisterDevice(
+    identifier: string,
+    deviceId: string,
+    options?: CallOptions
+  ): Promise<CDPResult<DryRunReport | DeliveryReport | void>>;
+  updateDeviceToken(
+    identifier: string,
+    deviceId: string,
+    tokens: DeviceTokenUpdate,
+    options?: CallOptions
+  ): Promise<CDPResult<DryRunReport | DeliveryReport | void>>;
+  sendEmail(request: SendEmailRequest, options?: CallOptions): Promise<CDPResult<Record<string, any>>>;
+  sendPush(request: SendPushRequest, options?: CallOptions): Promise<CDPResult<Record<string, any>>>;
+  sendSms(request: SendSmsRequest, options?: CallOptions): Promise<CDPResult<Record<string, any>>>;
 }
 
+const DEFAULT_SEGMENT_CHUNK_SIZE = 1000;
 const DEFAULT_CONCURRENCY = 10;
 const MAX_SAFE_CONCURRENCY = 30;
-export class CDPClient {
-  private readonly customerIoClient: TrackClient | null = null;
+/**
+ * OpenCDP client. `Events` maps event names to their properties and `Traits` describes identify
+ * traits, so `track` and `identify` are checked at compile time. Both default to untyped records.
+ */
+export class CDPClient<Events extends object = EventMap, Traits extends object = TraitMap> {
   private readonly apiRoot: string;
   private readonly sendToCustomerIo: boolean;
   private readonly logger: Logger;
   private limit: ReturnType<typeof pLimit>;
   private timeout: number;
   private readonly baseUrls: string[];
+  private readonly breakers: CircuitBreaker[];
   private readonly axiosInstance: AxiosInstance;
+  private readonly batchQueue: BatchQueue | null = null;
+  private readonly offlineQueue: OfflineQueue | null = null;
+  private readonly redactor: PiiRedactor | null = null;
+  private trackingPlan: TrackingPlanValidator | null = null;
+  private replayTimer: ReturnType<typeof setInterval> | null = null;
+  private readonly destinations: Destination[] = [];
+  private readonly dualWriteStats: Record<string, DivergenceStats> = {};
+
+  /**
+   * Result-returning variant of every operation. These never throw, regardless of
+   * `failOnException`: they resolve to `{ ok: true, data }` or `{ ok: false, error }`.
+   */
+  readonly results: CDPResultClient<Events, Traits> = {
+    ping: () => this.attempt("ping", () => this.runPing()),
+    identify: (identifier, properties, options) =>
+      this.dispatch(
+        { operation: "identify", identifier, payload: { properties: properties as Record<string, any> } },
+        (call) => this.runIdentify(call.identifier, call.payload.properties, options)
+      ),
+    track: (identifier, eventName, properties, options) =>
+      this.dispatch(
+        { operation: "track", identifier, payload: { eventName, properties: properties as Record<string, any> } },
+        (call) => this.runTrack(call.identifier, call.payload.eventName, call.payload.properties, options)
+      ),
+    group: (identifier, groupId, traits, options) =>
+      this.dispatch(
+        { operation: "group", identifier, payload: { groupId, traits: traits as Record<string, any> } },
+        (call) => this.runGroup(call.identifier, call.payload.groupId, call.payload.traits, options)
+      ),
+    identifyGroup: (groupId, traits, options) =>
+      this.dispatch(
+        { operation: "identifyGroup", payload: { groupId, traits: traits as Record<string, any> } },
+        (call) => this.runGroup(undefined, call.payload.groupId, call.payload.traits, options)
+      ),
+    addToSegment: (segmentId, identifiers, options) =>
+      this.dispatch({ operation: "addToSegment", payload: { segmentId, identifiers } }, (call) =>
+        this.runSegmentMembership(call.operation, call.payload.segmentId, call.payload.identifiers, options)
+      ),
+    removeFromSegment: (segmentId, identifiers, options) =>
+      this.dispatch({ operation: "removeFromSegment", payload: { segmentId, identifiers } }, (call) =>
+        this.runSegmentMembership(call.operation, call.payload.segmentId, call.payload.identifiers, options)
+      ),
+    getSubscriptionPreferences: (identifier, options) =>
+      this.dispatch({ operation: "getSubscriptionPreferences", identifier, payload: {} }, (call) =>
+        this.runGetSubscriptionPreferences(call.identifier, options)
+      ),
+    updateSubscriptionPreferences: (identifier, update, options) =>
+      this.dispatch(
+        { operation: "updateSubscriptionPreferences", identifier, payload: { topics: update?.topics } },
+        (call) =>
+          this.runPersonUpdate(
+            { operation: "updateSubscriptionPreferences", args: [call.identifier, call.payload.topics] },
+            "/v1/persons/updateSubscriptionPreferences",
+            { identifier: call.identifier, topics: call.payload.topics },
+            () => {
+              validateIdentifier(call.identifier);
+              validateTopics(call.payload.topics);
+            },
+            options
+          )
+      ),
+    unsubscribe: (identifier, options) =>
+      this.dispatch({ operation: "unsubscribe", identifier, payload: {} }, (call) =>
+        this.runPersonUpdate(
+          { operation: "unsubscribe", args: [call.identifier] },
+          "/v1/persons/unsubscribe",
+          { identifier: call.identifier },
+          () => validateIdentifier(call.identifier),
+          options
+        )
+      ),
+    resubscribe: (identifier, options) =>
+      this.dispatch({ operation: "resubscribe", identifier, payload: {} }, (call) =>
+        this.runPersonUpdate(
+          { operation: "resubscribe", args: [call.identifier] },
+          "/v1/persons/resubscribe",
+          { identifier: call.identifier },
+          () => validateIdentifier(call.identifier),
+          options
+        )
+      ),
+    page: (identifier, name, properties, options) =>
+      this.dispatch(
+        {
+          operation: "track",
+          identifier,
+          payload: { eventName: PAGE_VIEW_EVENT, properties: pageViewProperties(name, properties) },
+        },
+        (call) => this.runTrack(call.identifier, call.payload.eventName, call.payload.properties, options)
+      ),
+    screen: (identifier, name, properties, options) =>
+      this.dispatch(
+        {
+          operation: "track",
+          identifier,
+          payload: { eventName: SCREEN_VIEW_EVENT, properties: screenViewProperties(name, properties) },
+        },
+        (call) => this.runTrack(call.identifier, call.payload.eventName, call.payload.properties, options)
+      ),
+    trackAnonymous: (anonymousId, eventName, properties, options) =>
+      this.dispatch(
+        {
+          operation: "trackAnonymous",
+          identifier: anonymousId,
+          payload: { eventName, properties: properties as Record<string, any> },
+        },
+        (call) => this.runTrackAnonymous(call.identifier, call.payload.eventName, call.payload.properties, options)
+      ),
+    alias: (anonymousId, identifier, options) =>
+      this.dispatch({ operation: "alias", identifier, payload: { anonymousId } }, (call) =>
+        this.runPersonUpdate(
+          { operation: "alias", args: [call.payload.anonymousId, call.identifier] },
+          "/v1/persons/alias",
+          { anonymousId: call.payload.anonymousId, identifier: call.identifier },
+          () => {
+            validateAnonymousId(call.payload.anonymousId);
+            validateIdentifier(call.identifier);
+          },
+          options
+        )
+      ),
+    registerDevice: (identifier, deviceRegistrationParameters, options) =>
+      this.dispatch(
+        { operation: "registerDevice", identifier, payload: deviceRegistrationParameters },
+        (call) => this.runRegisterDevice(call.identifier, call.payload, options)
+      ),
+    suppress: (identifier, options) =>
+      this.dispatch({ operation: "suppress", identifier, payload: {} }, (call) =>
+        this.runPersonUpdate(
+          { operation: "suppress", args: [call.identifier] },
+          "/v1/persons/suppress",
+          { identifier: call.identifier },
+          () => validateIdentifier(call.identifier),
+          options
+        )
+      ),
+    unsuppress: (identifier, options) =>
+      this.dispatch({ operation: "unsuppress", identifier, payload: {} }, (call) =>
+        this.runPersonUpdate(
+          { operation: "unsuppress", args: [call.identifier] },
+          "/v1/persons/unsuppress",
+          { identifier: call.identifier },
+          () => validateIdentifier(call.identifier),
+          options
+        )
+      ),
+    mergePersons: (primary, secondary, options) =>
+      this.dispatch({ operation: "mergePersons", identifier: primary, payload: { secondary } }, (call) =>
+        this.runPersonUpdate(
+          { operation: "mergePersons", args: [call.identifier, call.payload.secondary] },
+          "/v1/persons/merge",
+          { primary: call.identifier, secondary: call.payload.secondary },
+          () => validateMerge(call.identifier, call.payload.secondary),
+          options
+        )
+      ),
+    unsetAttributes: (identifier, keys, options) =>
+      this.dispatch({ operation: "unsetAttributes", identifier, payload: { keys } }, (call) =>
+        this.runPersonUpdate(
+          { operation: "unsetAttributes", args: [call.identifier, call.payload.keys] },
+          "/v1/persons/unsetAttributes",
+          { identifier: call.identifier, keys: call.payload.keys },
+          () => {
+            validateIdentifier(call.identifier);
+            validateAttributeKeys(call.payload.keys);
+          },
+          options
+        )
+      ),
+    unregisterDevice: (identifier, deviceId, options) =>
+      this.dispatch({ operation: "unregisterDevice", identifier, payload: { deviceId } }, (call) =>
+        this.runPersonUpdate(
+          { operation: "unregisterDevice", args: [call.identifier, call.payload.deviceId] },
+          "/v1/persons/unregisterDevice",
+          { identifier: call.identifier, deviceId: call.payload.deviceId },
+          () => validateDevice(call.identifier, call.payload.deviceId),
+          options
+        )
+      ),
+    updateDeviceToken: (identifier, deviceId, tokens, options) =>
+      this.dispatch({ operation: "updateDeviceToken", identifier, payload: { ...tokens, deviceId } }, (call) => {
+        const { deviceId: device, ...update } = call.payload;
+        return this.runPersonUpdate(
+          { operation: "updateDeviceToken", args: [call.identifier, device, update] },
+          "/v1/persons/updateDeviceToken",
+          { identifier: call.identifier, ...call.payload },
+          () => {
+            validateDevice(call.identifier, device);
+            validateDeviceTokens(update);
+          },
+          options
+        );
+      }),
+    sendEmail: (request, options) =>
+      this.dispatch(
+        { operation: "sendEmail", identifier: identifierOf(request?.message?.identifiers), payload: request },
+        (call) => this.runSendEmail(call.payload, options)
+      ),
+    sendPush: (request, options) =>
+      this.dispatch(
+        { operation: "sendPush", identifier: identifierOf(request?.identifiers), payload: request },
+        (call) => this.runSendPush(call.payload, options)
+      ),
+    sendSms: (request, options) =>
+      this.dispatch(
+        { operation: "sendSms", identifier: identifierOf(request?.identifiers), payload: request },
+        (call) => this.runSendSms(call.payload, options)
+      ),
+  };
+
+  private readonly middlewares: Middleware[] = [];
 
   constructor(private config: CDPConfig) {
     this.apiRoot =
       config.cdpEndpoint || "https://api.opencdp.io/gateway/data-gateway";
     this.baseUrls = resolveAllBaseUrls(this.apiRoot, config.cdpFallbackEndpoints);
+    this.breakers = this.baseUrls.map((url) => new CircuitBreaker(url, config.circuitBreaker));
     this.sendToCustomerIo = Boolean(
       config.sendToCustomerIo && config.customerIo
     );
@@ -407,6 +909,13 @@ export class CDPClient {
       };
     }
 
+    if (config.pii) {
+      this.redactor = new PiiRedactor(config.pii);
+      if (config.pii.redactLogs !== false) {
+        this.logger = createRedactingLogger(this.logger, this.redactor);
+      }
+    }
+
     if (requestedConcurrency > MAX_SAFE_CONCURRENCY && this.config.debug) {
       this.logger.debug(
         `[CDP] maxConcurrentRequests (${requestedConcurrency}) exceeds limit. Using capped value: ${concurrencyLimit}`
@@ -416,20 +925,43 @@ export class CDPClient {
     // Initialize the concurrency limiter
     this.limit = pLimit(concurrencyLimit);
 
+    if (config.trackingPlan) {
+      this.trackingPlan = new TrackingPlanValidator(config.trackingPlan);
+    }
+
+    if (config.batching?.enabled) {
+      this.batchQueue = new BatchQueue(
+        (items) => this.sendBatch(items),
+        config.batching,
+        this.logger,
+        this.config.debug
+      );
+    }
+
+    if (config.offlineQueue?.enabled) {
+      this.offlineQueue = new OfflineQueue(config.offlineQueue, this.logger, this.config.debug);
+      this.replayTimer = setInterval(
+        () => this.replayOfflineQueue(),
+        config.offlineQueue.replayIntervalMs || DEFAULT_OFFLINE_REPLAY_INTERVAL_MS
+      );
+      this.replayTimer.unref?.();
+    }
+
     if (this.sendToCustomerIo && config.customerIo) {
-      const region = config.customerIo.region === "eu" ? RegionEU : RegionUS;
       try {
-        this.customerIoClient = new TrackClient(
-          config.customerIo.siteId,
-          config.customerIo.apiKey,
-          { region }
-        );
+        this.destinations.push(new CustomerIoDestination(config.customerIo));
       } catch (error) {
         if (this.config.debug) {
           this.logger.error("[Customer.io] Initialize error", { error });
         }
       }
     }
+    for (const destination of config.destinations || []) {
+      if (destination.name === "cdp" || this.destinations.some((existing) => existing.name === destination.name)) {
+        throw new CDPValidationError(`Destination name "${destination.name}" is already in use`);
+      }
+      this.destinations.push(destination);
+    }
   }
 
   /**
@@ -440,15 +972,24 @@ export class CDPClient {
    * It does NOT establish a persistent connection.
    *
    * Do not ping before sending each request
-   * @throws Error only when config.failOnException === true and the connection fails due to invalid credentials, network issues, or timeouts.
+   * @throws CDPError only when config.failOnException === true and the connection fails due to invalid credentials, network issues, or timeouts.
    */
   async ping(): Promise<void> {
     await this.validateConnection();
   }
 
   async validateConnection(): Promise<void> {
+    this.unwrap(await this.results.ping());
+  }
+
+  private async runPing(): Promise<DryRunReport | void> {
+    if (this.isDryRun()) {
+      return this.dryRun("ping", "get", "/v1/health/ping");
+    }
     try {
-      const response = await this.requestWithFailover("get", "/v1/health/ping");
+      const response = await this.requestWithFailover("get", "/v1/health/ping", undefined, {
+        operation: "ping",
+      });
 
       if (this.config.debug) {
         this.logger.debug(
@@ -457,67 +998,182 @@ export class CDPClient {
       }
     } catch (error: any) {
       // Extract details for better debugging
-      const statusCode = error.response?.status;
-      const statusText = error.response?.statusText;
-      const responseData = error.response?.data;
-      const dnsError = error.code === "ENOTFOUND";
-      const timeoutError = error.code === "ECONNABORTED";
+      const cause = error.cause;
+      const dnsError = cause?.code === "ENOTFOUND";
 
       // Error summary
       const errorSummary = {
-        message: error.message,
-        ...(statusCode && { statusCode }),
-        ...(statusText && { statusText }),
+        ...summarizeError(error),
+        ...(cause?.response?.statusText && { statusText: cause.response.statusText }),
         ...(dnsError && { dnsError: true }),
-        ...(timeoutError && { timeout: true }),
-        ...(responseData && { responseData }),
+        ...(error.responseData && { responseData: error.responseData }),
         stack: this.config.debug ? error.stack : undefined,
       };
       if (this.config.debug) {
         this.logger.error("[CDP] Failed to connect to CDP Server", errorSummary);
       }
-      if (this.config.failOnException) {
-        throw error;
-      } else {
-        return;
-      }
+      throw error;
     }
   }
 
 
+  /**
+   * Reports the health of every gateway in the order the next request would try them.
+   * The gateway marked `active` is the one the SDK currently sends to first.
+   */
+  getGatewayStatus(): GatewayStatus[] {
+    return rankByHealth(this.breakers).map((breaker, index) => ({
+      ...breaker.status(),
+      active: index === 0,
+    }));
+  }
+
+  /**
+   * Sends the request to each base URL in turn (ordered by circuit breaker health) until one answers with a 2xx.
+   * Gateways with an open circuit are skipped; when none is left a CDPCircuitOpenError is thrown without sending.
+   * Transient failures are retried against the same base URL according to the retry policy
+   * for the operation before moving on to the next one. Errors that are not retryable (4xx other
+   * than 408/429) are thrown straight away so they are never replayed against the fallbacks.
+   * A 429 is retried against the same base URL only: the rate limit applies to the API key, so
+   * the fallbacks would answer 429 as well.
+   * Each attempt takes a slot under the concurrency limit; the backoff between attempts does not hold one.
+   * Always throws a CDPError carrying the operation, gateway URL and classification.
+   */
   private async requestWithFailover<T = any>(
     method: "get" | "post",
     path: string,
-    data?: unknown
+    data: unknown,
+    { operation, idempotencyKey }: RequestOptions
   ): Promise<import("axios").AxiosResponse<T>> {
-    let lastError: unknown;
-    for (const baseUrl of this.baseUrls) {
-      try {
-        const config = { baseURL: baseUrl };
-        const response =
-          method === "get"
-            ? await this.axiosInstance.get<T>(path, config)
-            : await this.axiosInstance.post<T>(path, data, config);
-        if (response.status >= 200 && response.status < 300) {
-          return response;
-        }
-        lastError = new Error(`HTTP ${response.status}`);
-        if (this.config.debug) {
-          this.logger.debug(
-            `[CDP] Gateway ${baseUrl} returned ${response.status}, trying next host`
+    const headers = idempotencyKey ? { "Idempotency-Key": idempotencyKey } : undefined;
+    const policy = resolveRetryPolicy(this.config.retry, operation);
+    const gateways = orderByHealth(this.breakers);
+    let lastError: CDPError | undefined;
+    for (const gateway of gateways) {
+      // A concurrent request may have opened the circuit since the gateways were ordered
+      if (!gateway.isAvailable()) {
+        continue;
+      }
+      const baseUrl = gateway.url;
+      for (let attempt = 1; attempt <= policy.maxAttempts; attempt++) {
+        gateway.onAttempt();
+        try {
+          const config = headers ? { baseURL: baseUrl, headers } : { baseURL: baseUrl };
+          const response = await this.limited(() =>
+            method === "get"
+              ? this.axiosInstance.get<T>(path, config)
+              : this.axiosInstance.post<T>(path, data, config)
           );
-        }
-      } catch (error) {
-        lastError = error;
-        if (this.config.debug) {
-          this.logger.debug(`[CDP] Gateway ${baseUrl} unreachable: ${String(error)}`);
+          if (response.status >= 200 && response.status < 300) {
+            gateway.onSuccess();
+            return response;
+          }
+          throw Object.assign(new Error(`HTTP ${response.status}`), { response });
+        } catch (error) {
+          lastError = toCDPError(error, { operation, gatewayUrl: baseUrl, idempotencyKey });
+          if (!isRetryableError(lastError)) {
+            // The gateway answered, so it is healthy even though the request was rejected
+            gateway.onSuccess();
+            if (this.config.debug) {
+              this.logger.debug(
+                `[CDP] Gateway ${baseUrl} rejected ${operation} with ${lastError.status}, not retrying`
+              );
+            }
+            throw lastError;
+          }
+          if (lastError.classification === "rate_limit") {
+            // Rate limited, not down
+            gateway.onSuccess();
+          } else {
+            gateway.onFailure();
+          }
+          if (this.config.debug) {
+            this.logger.debug(
+              lastError.status
+                ? `[CDP] Gateway ${baseUrl} returned ${lastError.status}`
+                : `[CDP] Gateway ${baseUrl} unreachable: ${lastError.message}`
+            );
+          }
+          // Stop retrying a gateway whose circuit just opened
+          if (attempt >= policy.maxAttempts || !gateway.isAvailable()) {
+            break;
+          }
+          const delay = retryDelay(attempt, policy, error);
+          if (delay === undefined) {
+            break;
+          }
+          if (this.config.debug) {
+            this.logger.debug(
+              `[CDP] Retrying ${operation} against ${baseUrl} in ${delay}ms (attempt ${attempt + 1}/${policy.maxAttempts})`
+            );
+          }
+          await sleep(delay);
         }
       }
+      if (lastError?.classification === "rate_limit") {
+        throw lastError;
+      }
+      if (this.config.debug && gateway !== gateways[gateways.length - 1]) {
+        this.logger.debug(`[CDP] Trying next host after ${baseUrl}`);
+      }
+    }
+    throw (
+      lastError ??
+      new CDPCircuitOpenError("Every gateway circuit is open", { operation, idempotencyKey })
+    );
+  }
+
+  /**
+   * Replaces the tracking plan identify and track calls are checked against.
+   * Pass null to stop checking.
+   */
+  loadTrackingPlan(plan: TrackingPlan | null): void {
+    this.trackingPlan = plan ? new TrackingPlanValidator(plan) : null;
+  }
+
+  /**
+   * Registers middleware that runs around every call except ping, in registration order. Returns the client for chaining.
+   */
+  use(middleware: Middleware): this {
+    this.middlewares.push(middleware);
+    return this;
+  }
+
+  /**
+   * Sends every identify/track call currently held by the batching queue and waits for delivery.
+   * Resolves immediately when batching is disabled. Call this before `close()` on shutdown.
+   */
+  async flush(): Promise<void> {
+    if (this.batchQueue) {
+      await this.batchQueue.flush();
+    }
+  }
+
+  /**
+   * Returns the state of the offline queue, or null when the offline queue is disabled.
+   */
+  async getQueueStats(): Promise<OfflineQueueStats | null> {
+    return this.offlineQueue ? this.offlineQueue.stats() : null;
+  }
+
+  /**
+   * Running dual-write counters per destination (e.g. `customerIo`), counting how often it agreed with
+   * OpenCDP since the client was created. Empty when dual-write is off.
+   */
+  getDualWriteStats(): Record<string, DivergenceStats> {
+    const stats: Record<string, DivergenceStats> = {};
+    for (const [destination, counters] of Object.entries(this.dualWriteStats)) {
+      stats[destination] = { ...counters };
     }
-    throw lastError;
+    return stats;
   }
 
   close(): void {
+    this.batchQueue?.close();
+    if (this.replayTimer) {
+      clearInterval(this.replayTimer);
+      this.replayTimer = null;
+    }
     const httpAgent = (this.axiosInstance.defaults as any).httpAgent;
     const httpsAgent = (this.axiosInstance.defaults as any).httpsAgent;
     httpAgent?.destroy?.();
@@ -529,328 +1185,1191 @@ export class CDPClient {
   }
 
   /**
-   * Identify a person in the CDP
-   * This method is concurrency-limited using p-limit to avoid overwhelming traffic external traffic.
-   * @param identifier The person identifier
-   * @param properties Additional properties for the person
-   * @throws Error only when config.failOnException === true (e.g., when the identifier is empty or the request fails)
+   * Checks identify traits (no event name) or event properties against the tracking plan.
+   * Violations are logged in warn mode and thrown as a CDPTrackingPlanError in strict mode.
    */
-  async identify(
-    identifier: string,
-    properties?: Record<string, any>
-  ): Promise<void> {
-    return this.limited(async () => {
-      try {
-        validateIdentifier(identifier);
-      } catch (error) {
-        if (this.config.debug) {
-          this.logger.error("[CDP] Identify validation error", { error });
-        }
-        if (this.config.failOnException) {
-          throw error;
-        }
-        return;
-      }
-      const normalizedProps = validateProperties(properties);
+  private enforceTrackingPlan(properties: Record<string, any>, eventName?: string): void {
+    if (!this.trackingPlan) {
+      return;
+    }
+    const violations =
+      eventName === undefined
+        ? this.trackingPlan.checkIdentify(properties)
+        : this.trackingPlan.checkTrack(eventName, properties);
+    if (violations.length === 0) {
+      return;
+    }
+    const subject = eventName === undefined ? "identify traits" : `event "${eventName}"`;
+    const message = `Tracking plan violation for ${subject}: ${formatViolations(violations)}`;
+    if (this.trackingPlan.mode === "strict") {
+      throw new CDPTrackingPlanError(message, violations);
+    }
+    this.logger.warn(`[CDP] ${message}`);
+  }
 
-      if (this.sendToCustomerIo && this.customerIoClient) {
-        try {
-          await this.customerIoClient.identify(identifier, normalizedProps);
-          if (this.config.debug) {
-            this.logger.debug(`[Customer.io] Identified ${identifier}`);
-          }
-        } catch (error) {
-          if (this.config.debug) {
-            this.logger.error("[Customer.io] Identify error", { error });
-          }
-          if (this.config.failOnException) {
-            throw error;
-          }
-        }
+  private isDryRun(options?: CallOptions): boolean {
+    return Boolean(options?.dryRun ?? this.config.dryRun);
+  }
+
+  /**
+   * Describes the request a call would have made, instead of making it. Logged in debug mode only.
+   */
+  private dryRun(
+    operation: CDPOperation,
+    method: "get" | "post",
+    path: string,
+    details: Pick<DryRunReport, "payload" | "idempotencyKey" | "destinations"> = {}
+  ): DryRunReport {
+    const gatewayUrls = orderByHealth(this.breakers).map((breaker) => breaker.url);
+    const report: DryRunReport = {
+      dryRun: true,
+      operation,
+      method: method.toUpperCase() as DryRunReport["method"],
+      url: `${gatewayUrls[0] ?? rankByHealth(this.breakers)[0].url}${path}`,
+      path,
+      gatewayUrls,
+      ...details,
+    };
+    if (this.config.debug) {
+      const payload = details.payload === undefined ? "" : ` ${JSON.stringify(details.payload)}`;
+      this.logger.debug(`[CDP] Dry run: ${report.method} ${report.url}${payload}`);
+      for (const [name, preview] of Object.entries(details.destinations || {})) {
+        this.logger.debug(`[CDP] Dry run for ${name}: ${JSON.stringify(preview)}`);
       }
+    }
+    return report;
+  }
 
-      try {
-        await this.requestWithFailover('post', "/v1/persons/identify", {
-          identifier,
-          properties: normalizedProps,
-        });
+  /**
+   * What each destination handling the call would have been sent, or undefined when there are none
+   */
+  private previewDestinations(call: DestinationCall): DryRunReport["destinations"] {
+    const targets = this.destinations.filter((destination) => handles(destination, call.operation));
+    if (targets.length === 0) {
+      return undefined;
+    }
+    const previews: Record<string, unknown> = {};
+    for (const destination of targets) {
+      previews[destination.name] = destination.preview ? destination.preview(call) : call;
+    }
+    return previews;
+  }
 
-        if (this.config.debug) {
-          this.logger.debug(`[CDP] Identified ${identifier}`);
-        }
-      } catch (error) {
-        // NB: Avoid logging large error objects directly to reduce memory footprint on high traffic apps
-        if (this.config.debug) {
-          const errorSummary = {
-            message: error?.message,
-            status: error?.response?.status,
-            data: error?.response?.data?.message || "[truncated]",
-          };
-          this.logger.error("[CDP] Identify error", { errorSummary });
-        }
-        // Re-throw the error so users can handle failures
-        if (this.config.failOnException) {
-          throw error;
-        }
-        return;
-      }
-    });
+  /**
+   * Applies the PII policy, if any, to identify traits and event properties
+   */
+  private redactProperties(properties: Record<string, any>): Record<string, any> {
+    return this.redactor ? this.redactor.redact(properties) : properties;
   }
 
   /**
-   * Track an event for a person.
-   * @param identifier The person identifier
-   * @param eventName The event name
-   * @param properties Additional properties for the event
-   * @throws Error only when config.failOnException === true (e.g., when validation or request fails)
+   * Writes a call to OpenCDP and to every destination handling it, all at the same time. Each one
+   * is always attempted. The call fails when OpenCDP fails, or when a destination fails and
+   * failOnException is set; the error then carries the outcome at each destination in `destinations`.
    */
-  async track(
-    identifier: string,
-    eventName: string,
-    properties?: Record<string, any>
-  ): Promise<void> {
-    return this.limited(async () => {
-      try {
-        validateIdentifier(identifier);
-        validateEventName(eventName);
-      } catch (error) {
-        if (this.config.debug) {
-          this.logger.error("[CDP] Track validation error", { error });
-        }
-        if (this.config.failOnException) {
-          throw error;
-        }
+  private async fanOut(
+    call: DestinationCall,
+    context: DestinationContext,
+    sendToCdp: () => Promise<boolean>
+  ): Promise<DeliveryReport | void> {
+    const { operation } = call;
+    const targets = this.destinations.filter((destination) => handles(destination, operation));
+    if (targets.length === 0) {
+      await sendToCdp();
+      return;
+    }
+
+    const [cdp, ...outcomes] = await Promise.all([
+      this.deliverTo(operation, sendToCdp),
+      ...targets.map((destination) =>
+        this.deliverTo(operation, () =>
+          // Pluggable destinations bring their own limits and retries, so only Customer.io shares the client's slots
+          destination instanceof CustomerIoDestination
+            ? this.limited(() => deliver(destination, call, context))
+            : deliver(destination, call, context)
+        )
+      ),
+    ]);
+    const destinations: Record<string, DestinationOutcome> = { cdp };
+    targets.forEach((destination, index) => {
+      const outcome = outcomes[index];
+      destinations[destination.name] = outcome;
+      this.recordDivergence(destination.name, cdp, outcome);
+      if (!this.config.debug) {
         return;
       }
-      try {
-        const normalizedProps = validateProperties(properties);
-        if (this.sendToCustomerIo && this.customerIoClient) {
-          try {
-            await this.customerIoClient.track(identifier, {
-              name: eventName,
-              data: normalizedProps,
-            });
-            if (this.config.debug) {
-              this.logger.debug(
-                `[Customer.io] Tracked event ${eventName} for ${identifier}`
-              );
-            }
-          } catch (error) {
-            if (this.config.debug) {
-              this.logger.error("[Customer.io] Track error", { error });
-            }
-            if (this.config.failOnException) {
-              throw error;
-            }
-          }
-        }
-
-        await this.requestWithFailover('post', "/v1/persons/track", {
-          identifier,
-          eventName: eventName,
-          properties: normalizedProps,
+      if (outcome.ok === false) {
+        this.logger.error(`[CDP] Destination ${destination.name} ${operation} error`, {
+          errorSummary: summarizeError(outcome.error),
         });
+      } else {
+        this.logger.debug(`[CDP] Destination ${destination.name} accepted ${operation} for ${call.args[0]}`);
+      }
+      if (cdp.ok !== outcome.ok) {
+        this.logger.debug(
+          `[CDP] Dual-write divergence: ${operation} ${cdp.ok ? "reached OpenCDP but not" : "did not reach OpenCDP but reached"} ${destination.name}`
+        );
+      }
+    });
 
-        if (this.config.debug) {
-          this.logger.debug(
-            `[CDP] Tracked event ${eventName} for ${identifier}`
-          );
-        }
-      } catch (error) {
-        if (this.config.debug) {
-          const errorSummary = {
-            message: error?.message,
-            status: error?.response?.status,
-            data: error?.response?.data?.message || "[truncated]",
-          };
-          this.logger.error("[CDP] Track error:", { errorSummary });
-        }
-        if (this.config.failOnException) {
-          throw error;
+    if (cdp.ok === false) {
+      cdp.error.destinations = destinations;
+      throw cdp.error;
+    }
+    if (this.config.failOnException) {
+      for (const outcome of outcomes) {
+        if (outcome.ok === false) {
+          outcome.error.destinations = destinations;
+          throw outcome.error;
         }
-        return;
       }
-    });
+    }
+    return { operation, destinations };
   }
 
-  /**
-   * Register a device for a person. A device must be registered to send push notifications
-   * @param identifier
-   * @param deviceRegistrationParameters
-   * @throws Error only when config.failOnException === true (e.g., when validation or request fails)
+  private async deliverTo(operation: CDPOperation, send: () => Promise<unknown>): Promise<DestinationOutcome> {
+    const startedAt = Date.now();
+    try {
+      const queued = await send();
+      return queued === true
+        ? { ok: true, durationMs: Date.now() - startedAt, queued }
+        : { ok: true, durationMs: Date.now() - startedAt };
+    } catch (error) {
+      return { ok: false, durationMs: Date.now() - startedAt, error: toCDPError(error, { operation }) };
+    }
+  }
+
+  private recordDivergence(destination: string, cdp: DestinationOutcome, outcome: DestinationOutcome): void {
+    const stats = (this.dualWriteStats[destination] = this.dualWriteStats[destination] || {
+      calls: 0,
+      bothOk: 0,
+      cdpOkOnly: 0,
+      destinationOkOnly: 0,
+      bothFailed: 0,
+    });
+    stats.calls++;
+    if (cdp.ok && outcome.ok) {
+      stats.bothOk++;
+    } else if (cdp.ok) {
+      stats.cdpOkOnly++;
+    } else if (outcome.ok) {
+      stats.destinationOkOnly++;
+    } else {
+      stats.bothFailed++;
+    }
+  }
+
+  /**
+   * Runs an operation and captures its outcome. Never rejects.
    */
-  async registerDevice(
-    identifier: string,
-    deviceRegistrationParameters: DeviceRegistrationParameters
-  ): Promise<void> {
-    return this.limited(async () => {
-      try {
-        validateIdentifier(identifier);
-      } catch (error) {
+  private async attempt<T>(operation: CDPOperation, run: () => Promise<T>): Promise<CDPResult<T>> {
+    try {
+      return { ok: true, data: await run() };
+    } catch (error) {
+      return { ok: false, error: toCDPError(error, { operation }) };
+    }
+  }
+
+  /**
+   * Runs a call through the middleware pipeline and the operation itself.
+   * A call dropped by middleware resolves as ok without data and skips the after hooks.
+   */
+  private async dispatch<E extends CallEnvelope, T>(
+    envelope: E,
+    run: (envelope: E) => Promise<T>
+  ): Promise<CDPResult<T | undefined>> {
+    if (this.middlewares.length === 0) {
+      return this.attempt(envelope.operation, () => run(envelope));
+    }
+
+    let sent: E | null = null;
+    const result = await this.attempt(envelope.operation, async () => {
+      sent = await runBeforeMiddleware(this.middlewares, envelope);
+      if (!sent) {
         if (this.config.debug) {
-          this.logger.error("[CDP] Register device validation error", {
-            error,
-          });
+          this.logger.debug(`[CDP] ${envelope.operation} dropped by middleware`);
         }
-        if (this.config.failOnException) {
-          throw error;
+        return undefined;
+      }
+      return run(sent);
+    });
+
+    if (sent) {
+      await runAfterMiddleware(this.middlewares, sent, result, this.logger);
+    }
+    return result;
+  }
+
+  /**
+   * Turns a result back into the classic behaviour: the data on success, otherwise
+   * a thrown CDPError when failOnException is set and undefined when it is not.
+   */
+  private unwrap<T>(result: CDPResult<T>): T | undefined {
+    if (result.ok === false) {
+      if (this.config.failOnException) {
+        throw result.error;
+      }
+      return undefined;
+    }
+    return result.data;
+  }
+
+  /**
+   * Sends a call through requestWithFailover. When every gateway is unavailable and the offline
+   * queue is enabled, the call is persisted for replay instead of failing.
+   * Resolves to true when the call was queued rather than delivered.
+   */
+  private async requestOrQueue(
+    path: string,
+    data: unknown,
+    options: RequestOptions
+  ): Promise<boolean> {
+    const { operation, idempotencyKey } = options;
+    try {
+      await this.requestWithFailover("post", path, data, options);
+    } catch (error) {
+      if (!this.offlineQueue || !isRetryableError(error)) {
+        throw error;
+      }
+      const queued = await this.offlineQueue.enqueue(operation, path, data, idempotencyKey);
+      if (!queued) {
+        throw error;
+      }
+      if (this.config.debug) {
+        this.logger.debug(`[CDP] Gateways unavailable, queued ${operation} for replay`);
+      }
+      return true;
+    }
+
+    if (this.offlineQueue?.hasPending) {
+      this.replayOfflineQueue();
+    }
+    return false;
+  }
+
+  private replayOfflineQueue(): void {
+    if (!this.offlineQueue?.hasPending) {
+      return;
+    }
+    this.offlineQueue
+      .replay(async (entry) => {
+        await this.requestWithFailover("post", entry.path, entry.data, {
+          operation: entry.operation as CDPOperation,
+          idempotencyKey: entry.idempotencyKey,
+        });
+      })
+      .then((delivered) => {
+        if (delivered > 0 && this.config.debug) {
+          this.logger.debug(`[CDP] Replayed ${delivered} queued call(s)`);
         }
-        return;
+      })
+      .catch((error) => {
+        this.logger.error("[CDP] Offline queue replay error", { message: error?.message });
+      });
+  }
+
+  private async sendBatch(items: BatchItem[]): Promise<boolean> {
+    return this.requestOrQueue("/v1/persons/batch", { batch: items }, {
+      operation: "batch",
+      idempotencyKey: randomUUID(),
+    });
+  }
+
+  /**
+   * Hands a validated call to the batching queue and waits for its batch to be sent.
+   * Resolves to true when the batch was queued offline rather than delivered.
+   */
+  private async deliverBatched(item: BatchItem): Promise<boolean> {
+    try {
+      const queued = await this.batchQueue!.enqueue(item);
+      if (this.config.debug) {
+        this.logger.debug(
+          queued
+            ? `[CDP] Batched ${item.type} for ${item.identifier} queued for replay`
+            : `[CDP] Batched ${item.type} delivered for ${item.identifier}`
+        );
       }
+      return queued;
+    } catch (error) {
+      if (this.config.debug) {
+        const errorSummary = summarizeError(error);
+        this.logger.error(`[CDP] Batched ${item.type} error`, { errorSummary });
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Identify a person in the CDP
+   * This method is concurrency-limited using p-limit to avoid overwhelming traffic external traffic.
+   * When batching is enabled this resolves once the batch containing the call has been delivered.
+   * @param identifier The person identifier
+   * @param properties Additional properties for the person
+   * @param options Per-call options, e.g. a caller-supplied idempotency key
+   * @returns A DryRunReport instead of sending when dry-run is on, and a DeliveryReport with the
+   * outcome at each destination when dual-write is on
+   * @throws CDPError only when config.failOnException === true (e.g., when the identifier is empty or the request fails)
+   */
+  async identify(
+    identifier: string,
+    properties?: Partial<Traits>,
+    options?: CallOptions
+  ): Promise<DryRunReport | DeliveryReport | void> {
+    return this.unwrap(await this.results.identify(identifier, properties, options));
+  }
 
-      if (this.sendToCustomerIo && this.customerIoClient) {
+  private async runIdentify(
+    identifier: string,
+    properties?: Record<string, any>,
+    options?: CallOptions
+  ): Promise<DryRunReport | DeliveryReport | void> {
+    const idempotencyKey = resolveIdempotencyKey(options);
+    let validatedProps: Record<string, any>;
+    try {
+      validateIdentifier(identifier);
+      validatedProps = validateProperties(properties);
+      this.enforceTrackingPlan(validatedProps);
+    } catch (error) {
+      if (this.config.debug) {
+        this.logger.error("[CDP] Identify validation error", { error });
+      }
+      throw toCDPError(error, { operation: "identify" });
+    }
+    const normalizedProps = this.redactProperties(validatedProps);
+
+    if (this.isDryRun(options)) {
+      return this.dryRun("identify", "post", "/v1/persons/identify", {
+        payload: { identifier, properties: normalizedProps },
+        idempotencyKey,
+        destinations: this.previewDestinations({ operation: "identify", args: [identifier, normalizedProps] }),
+      });
+    }
+
+    return this.fanOut(
+      { operation: "identify", args: [identifier, normalizedProps] },
+      { idempotencyKey },
+      async () => {
+        if (this.batchQueue) {
+          return this.deliverBatched({ type: "identify", identifier, properties: normalizedProps, idempotencyKey });
+        }
         try {
-          await this.customerIoClient.addDevice(
-            identifier,
-            deviceRegistrationParameters.deviceId,
-            deviceRegistrationParameters.platform,
-            deviceRegistrationParameters
+          const queued = await this.requestOrQueue(
+            "/v1/persons/identify",
+            { identifier, properties: normalizedProps },
+            { operation: "identify", idempotencyKey }
           );
+
+          if (this.config.debug && !queued) {
+            this.logger.debug(`[CDP] Identified ${identifier}`);
+          }
+          return queued;
         } catch (error) {
+          // NB: Avoid logging large error objects directly to reduce memory footprint on high traffic apps
           if (this.config.debug) {
-            this.logger.error("[Customer.io] Register device error", { error });
-          }
-          if (this.config.failOnException) {
-            throw error;
+            const errorSummary = summarizeError(error);
+            this.logger.error("[CDP] Identify error", { errorSummary });
           }
+          // Re-throw the error so users can handle failures
+          throw toCDPError(error, { operation: "identify" });
         }
       }
+    );
+  }
 
-      try {
-        await this.requestWithFailover('post', "/v1/persons/registerDevice", {
-          identifier,
-          ...deviceRegistrationParameters,
-        });
-      } catch (error) {
-        if (this.config.debug) {
-          // NB: Avoid logging large error objects directly to reduce memory footprint on high traffic apps
-          const errorSummary = {
-            message: error?.message,
-            status: error?.response?.status,
-            data: error?.response?.data?.message || "[truncated]",
-          };
-          this.logger.error("[CDP] Register device error:", { errorSummary });
+  /**
+   * Track an event for a person.
+   * When batching is enabled this resolves once the batch containing the call has been delivered.
+   * @param identifier The person identifier
+   * @param eventName The event name
+   * @param properties Additional properties for the event
+   * @param options Per-call options, e.g. a caller-supplied idempotency key
+   * @returns A DryRunReport instead of sending when dry-run is on, and a DeliveryReport with the
+   * outcome at each destination when dual-write is on
+   * @throws CDPError only when config.failOnException === true (e.g., when validation or request fails)
+   */
+  async track<E extends EventName<Events>>(
+    identifier: string,
+    eventName: E,
+    properties?: Events[E],
+    options?: CallOptions
+  ): Promise<DryRunReport | DeliveryReport | void> {
+    return this.unwrap(await this.results.track(identifier, eventName, properties, options));
+  }
+
+  private async runTrack(
+    identifier: string,
+    eventName: string,
+    properties?: Record<string, any>,
+    options?: CallOptions
+  ): Promise<DryRunReport | DeliveryReport | void> {
+    const idempotencyKey = resolveIdempotencyKey(options);
+    let validatedProps: Record<string, any>;
+    try {
+      validateIdentifier(identifier);
+      validateEventName(eventName);
+      validatedProps = validateProperties(properties);
+      validateStandardProperties(eventName, validatedProps);
+      this.enforceTrackingPlan(validatedProps, eventName);
+    } catch (error) {
+      if (this.config.debug) {
+        this.logger.error("[CDP] Track validation error", { error });
+      }
+      throw toCDPError(error, { operation: "track" });
+    }
+    const normalizedProps = this.redactProperties(validatedProps);
+
+    if (this.isDryRun(options)) {
+      return this.dryRun("track", "post", "/v1/persons/track", {
+        payload: { identifier, eventName, properties: normalizedProps },
+        idempotencyKey,
+        destinations: this.previewDestinations({ operation: "track", args: [identifier, eventName, normalizedProps] }),
+      });
+    }
+
+    return this.fanOut(
+      { operation: "track", args: [identifier, eventName, normalizedProps] },
+      { idempotencyKey },
+      async () => {
+        if (this.batchQueue) {
+          return this.deliverBatched({ type: "track", identifier, eventName, properties: normalizedProps, idempotencyKey });
         }
-        if (this.config.failOnException) {
-          throw error;
+        try {
+          const queued = await this.requestOrQueue(
+            "/v1/persons/track",
+            { identifier, eventName: eventName, properties: normalizedProps },
+            { operation: "track", idempotencyKey }
+          );
+
+          if (this.config.debug && !queued) {
+            this.logger.debug(
+              `[CDP] Tracked event ${eventName} for ${identifier}`
+            );
+          }
+          return queued;
+        } catch (error) {
+          if (this.config.debug) {
+            const errorSummary = summarizeError(error);
+            this.logger.error("[CDP] Track error:", { errorSummary });
+          }
+          throw toCDPError(error, { operation: "track" });
         }
       }
-    });
+    );
   }
 
   /**
-   * Send an email using the CDP transactional email service
-   * @param request The send email request parameters
-   * @returns Promise that resolves when the email is sent
-  * @throws Error only when config.failOnException === true and validation or the request fails
+   * Add a person to a group (account, company, workspace), creating the group if needed.
+   * `traits` are traits of the group, e.g. its plan or seat count, not of the person.
+   * @param identifier The person identifier
+   * @param groupId The group id
+   * @param traits Group traits to set
+   * @param options Per-call options, e.g. a caller-supplied idempotency key
+   * @returns A DryRunReport instead of sending when dry-run is on, and a DeliveryReport with the
+   * outcome at each destination when dual-write is on
+   * @throws CDPError only when config.failOnException === true (e.g., when validation or request fails)
    */
-  async sendEmail(request: SendEmailRequest): Promise<Record<string, any>> {
-    return this.limited(async () => {
-      try {
-        validateSendEmailRequest(request);
-      } catch (error) {
-        if (this.config.debug) {
-          this.logger.error("[CDP] Send email validation error", { error });
+  async group(
+    identifier: string,
+    groupId: string,
+    traits?: Record<string, any>,
+    options?: CallOptions
+  ): Promise<DryRunReport | DeliveryReport | void> {
+    return this.unwrap(await this.results.group(identifier, groupId, traits, options));
+  }
+
+  /**
+   * Create or update a group (account, company, workspace) without changing its members.
+   * Written to Customer.io as an object when dual-write is on.
+   * @param groupId The group id
+   * @param traits Group traits to set, e.g. { plan: "enterprise", seats: 40 }
+   * @param options Per-call options, e.g. a caller-supplied idempotency key
+   * @returns A DryRunReport instead of sending when dry-run is on, and a DeliveryReport with the
+   * outcome at each destination when dual-write is on
+   * @throws CDPError only when config.failOnException === true (e.g., when validation or request fails)
+   */
+  async identifyGroup(
+    groupId: string,
+    traits?: Record<string, any>,
+    options?: CallOptions
+  ): Promise<DryRunReport | DeliveryReport | void> {
+    return this.unwrap(await this.results.identifyGroup(groupId, traits, options));
+  }
+
+  /**
+   * Runs group (with the person joining) and identifyGroup (without one). Never batched.
+   */
+  private async runGroup(
+    identifier: string | undefined,
+    groupId: string,
+    traits?: Record<string, any>,
+    options?: CallOptions
+  ): Promise<DryRunReport | DeliveryReport | void> {
+    const operation = identifier === undefined ? "identifyGroup" : "group";
+    let validatedTraits: Record<string, any>;
+    try {
+      if (identifier !== undefined) {
+        validateIdentifier(identifier);
+      }
+      validateGroupId(groupId);
+      validatedTraits = validateProperties(traits);
+    } catch (error) {
+      if (this.config.debug) {
+        this.logger.error(`[CDP] ${operation} validation error`, { error });
+      }
+      throw toCDPError(error, { operation });
+    }
+    const normalizedTraits = this.redactProperties(validatedTraits);
+
+    if (identifier === undefined) {
+      return this.sendPersonUpdate(
+        { operation: "identifyGroup", args: [groupId, normalizedTraits] },
+        "/v1/groups/identify",
+        { groupId, traits: normalizedTraits },
+        options
+      );
+    }
+    return this.sendPersonUpdate(
+      { operation: "group", args: [identifier, groupId, normalizedTraits] },
+      "/v1/persons/group",
+      { identifier, groupId, traits: normalizedTraits },
+      options
+    );
+  }
+
+  /**
+   * Add people to a manual segment. Large lists are split into chunks (`options.chunkSize`, default 1000)
+   * sent in parallel under the client's concurrency limit.
+   * @param segmentId The segment id
+   * @param identifiers The person identifiers to add
+   * @param options Per-call options: chunk size, idempotency key (suffixed with `:<index>` per chunk), dry run
+   * @returns A report with the outcome of every chunk. Failed chunks are reported there and never thrown.
+   * @throws CDPError only when config.failOnException === true and validation fails
+   */
+  async addToSegment(
+    segmentId: string,
+    identifiers: string[],
+    options?: SegmentMembershipOptions
+  ): Promise<SegmentMembershipReport | void> {
+    return this.unwrap(await this.results.addToSegment(segmentId, identifiers, options));
+  }
+
+  /**
+   * Remove people from a manual segment, chunked like `addToSegment`
+   * @param segmentId The segment id
+   * @param identifiers The person identifiers to remove
+   * @param options Per-call options: chunk size, idempotency key (suffixed with `:<index>` per chunk), dry run
+   * @returns A report with the outcome of every chunk. Failed chunks are reported there and never thrown.
+   * @throws CDPError only when config.failOnException === true and validation fails
+   */
+  async removeFromSegment(
+    segmentId: string,
+    identifiers: string[],
+    options?: SegmentMembershipOptions
+  ): Promise<SegmentMembershipReport | void> {
+    return this.unwrap(await this.results.removeFromSegment(segmentId, identifiers, options));
+  }
+
+  private async runSegmentMembership(
+    operation: SegmentMembershipReport["operation"],
+    segmentId: string,
+    identifiers: string[],
+    options?: SegmentMembershipOptions
+  ): Promise<SegmentMembershipReport> {
+    const idempotencyKey = resolveIdempotencyKey(options);
+    let unique: string[];
+    try {
+      unique = validateSegmentMembership(segmentId, identifiers);
+    } catch (error) {
+      if (this.config.debug) {
+        this.logger.error(`[CDP] ${operation} validation error`, { error });
+      }
+      throw toCDPError(error, { operation });
+    }
+
+    const path = operation === "addToSegment" ? "/v1/segments/add" : "/v1/segments/remove";
+    const chunkSize = Math.max(1, Math.floor(options?.chunkSize || DEFAULT_SEGMENT_CHUNK_SIZE));
+    const chunks: string[][] = [];
+    for (let i = 0; i < unique.length; i += chunkSize) {
+      chunks.push(unique.slice(i, i + chunkSize));
+    }
+
+    const results = await Promise.all(
+      chunks.map(async (chunk, index): Promise<SegmentChunkResult> => {
+        const chunkKey = `${idempotencyKey}:${index}`;
+        const body = { segmentId, identifiers: chunk };
+        if (this.isDryRun(options)) {
+          const dryRun = this.dryRun(operation, "post", path, { payload: body, idempotencyKey: chunkKey });
+          return { index, identifiers: chunk, idempotencyKey: chunkKey, ok: true, queued: false, dryRun };
         }
-        if (this.config.failOnException) {
-          throw error;
+        try {
+          const queued = await this.requestOrQueue(path, body, { operation, idempotencyKey: chunkKey });
+          return { index, identifiers: chunk, idempotencyKey: chunkKey, ok: true, queued };
+        } catch (error) {
+          const cdpError = toCDPError(error, { operation, idempotencyKey: chunkKey });
+          if (this.config.debug) {
+            this.logger.error(`[CDP] ${operation} chunk ${index} error`, { errorSummary: summarizeError(error) });
+          }
+          return { index, identifiers: chunk, idempotencyKey: chunkKey, ok: false, error: cdpError };
         }
-        return;
+      })
+    );
+
+    const failed = results.reduce((count, chunk) => count + (chunk.ok ? 0 : chunk.identifiers.length), 0);
+    if (this.config.debug) {
+      this.logger.debug(`[CDP] ${operation} ${segmentId}: ${unique.length - failed}/${unique.length} identifiers accepted`);
+    }
+    return { operation, segmentId, total: unique.length, succeeded: unique.length - failed, failed, chunks: results };
+  }
+
+  /**
+   * Get what a person is subscribed to, e.g. to render a preference center
+   * @param identifier The person identifier
+   * @param options Per-call options, e.g. dry run
+   * @returns The global unsubscribe flag and the state of each topic (a DryRunReport when dry-run is on)
+   * @throws CDPError only when config.failOnException === true (e.g., when validation or request fails)
+   */
+  async getSubscriptionPreferences(
+    identifier: string,
+    options?: CallOptions
+  ): Promise<SubscriptionPreferences | DryRunReport | void> {
+    return this.unwrap(await this.results.getSubscriptionPreferences(identifier, options));
+  }
+
+  private async runGetSubscriptionPreferences(
+    identifier: string,
+    options?: CallOptions
+  ): Promise<SubscriptionPreferences | DryRunReport> {
+    const operation = "getSubscriptionPreferences";
+    try {
+      validateIdentifier(identifier);
+    } catch (error) {
+      if (this.config.debug) {
+        this.logger.error(`[CDP] ${operation} validation error`, { error });
       }
+      throw toCDPError(error, { operation });
+    }
 
-      // Check for unsupported fields and log warnings
-      this.warnUnsupportedFields(request);
-
-      // Build the request payload - pass through all fields as they match the schema
-      const message = request.message;
-      const emailPayload = {
-        to: message.to,
-        identifiers: message.identifiers,
-        message_data: message.message_data,
-        send_at: message.send_at,
-        disable_message_retention: message.disable_message_retention,
-        send_to_unsubscribed: message.send_to_unsubscribed,
-        queue_draft: message.queue_draft,
-        bcc: message.bcc,
-        cc: message.cc,
-        fake_bcc: message.fake_bcc,
-        reply_to: message.reply_to,
-        preheader: message.preheader,
-        headers: message.headers,
-        disable_css_preprocessing: message.disable_css_preprocessing,
-        tracked: message.tracked,
-        transactional_message_id:
-          "transactional_message_id" in message
-            ? message.transactional_message_id
-            : undefined,
-        body: "body" in message ? message.body : undefined,
-        body_amp: message.amp_body,
-        body_plain: message.plaintext_body,
-        subject: "subject" in message ? message.subject : undefined,
-        from: "from" in message ? message.from : undefined,
-        language: message.language,
-      };
+    const path = `/v1/persons/subscriptionPreferences?identifier=${encodeURIComponent(identifier)}`;
+    if (this.isDryRun(options)) {
+      return this.dryRun(operation, "get", path);
+    }
+    try {
+      const response = await this.requestWithFailover<Partial<SubscriptionPreferences>>("get", path, undefined, {
+        operation,
+      });
+      return { unsubscribed: Boolean(response.data?.unsubscribed), topics: response.data?.topics || {} };
+    } catch (error) {
+      if (this.config.debug) {
+        const errorSummary = summarizeError(error);
+        this.logger.error(`[CDP] ${operation} error`, { errorSummary });
+      }
+      throw toCDPError(error, { operation });
+    }
+  }
 
-      // Remove undefined values to keep the payload clean
-      const cleanPayload = Object.fromEntries(
-        Object.entries(emailPayload).filter(([_, value]) => value !== undefined)
-      );
-      if (this.sendToCustomerIo && this.customerIoClient && this.config.debug) {
-        // Warning that to avoid sending twice it will not be sent to CIO. to turn this off set sendToCustomerIo to false.
-        this.logger.warn(
-          "[CDP] Warning: Transactional messaging email will NOT be sent to Customer.io to avoid sending twice. To turn this warning off set `sendToCustomerIo` to false."
-        );
+  /**
+   * Change a person's subscription to some topics, e.g. from a preference center. Topics left out
+   * keep their state. Does not lift a global unsubscribe; use `resubscribe` for that.
+   * @param identifier The person identifier
+   * @param update The topics to change, e.g. { topics: { topic_1: true, topic_3: false } }
+   * @param options Per-call options, e.g. a caller-supplied idempotency key
+   * @returns A DryRunReport instead of sending when dry-run is on, and a DeliveryReport with the
+   * outcome at each destination when dual-write is on
+   * @throws CDPError only when config.failOnException === true (e.g., when validation or request fails)
+   */
+  async updateSubscriptionPreferences(
+    identifier: string,
+    update: SubscriptionPreferencesUpdate,
+    options?: CallOptions
+  ): Promise<DryRunReport | DeliveryReport | void> {
+    return this.unwrap(await this.results.updateSubscriptionPreferences(identifier, update, options));
+  }
+
+  /**
+   * Unsubscribe a person from everything. Transactional messages sent with `send_to_unsubscribed` still go out.
+   * @param identifier The person identifier
+   * @param options Per-call options, e.g. a caller-supplied idempotency key
+   * @returns A DryRunReport instead of sending when dry-run is on, and a DeliveryReport with the
+   * outcome at each destination when dual-write is on
+   * @throws CDPError only when config.failOnException === true (e.g., when validation or request fails)
+   */
+  async unsubscribe(identifier: string, options?: CallOptions): Promise<DryRunReport | DeliveryReport | void> {
+    return this.unwrap(await this.results.unsubscribe(identifier, options));
+  }
+
+  /**
+   * Lift a global unsubscribe. Topic preferences are kept as they were.
+   * @param identifier The person identifier
+   * @param options Per-call options, e.g. a caller-supplied idempotency key
+   * @returns A DryRunReport instead of sending when dry-run is on, and a DeliveryReport with the
+   * outcome at each destination when dual-write is on
+   * @throws CDPError only when config.failOnException === true (e.g., when validation or request fails)
+   */
+  async resubscribe(identifier: string, options?: CallOptions): Promise<DryRunReport | DeliveryReport | void> {
+    return this.unwrap(await this.results.resubscribe(identifier, options));
+  }
+
+  /**
+   * Track a page view as a `page_view` event, so every team records page views the same way.
+   * Sent like `track` (batched when batching is on); middleware sees a track call.
+   * @param identifier The person identifier
+   * @param name Name of the page, e.g. "Pricing"
+   * @param properties The standard page properties (url, path, referrer, title) and any other properties
+   * @param options Per-call options, e.g. a caller-supplied idempotency key
+   * @returns A DryRunReport instead of sending when dry-run is on, and a DeliveryReport with the
+   * outcome at each destination when dual-write is on
+   * @throws CDPError only when config.failOnException === true (e.g., when validation or request fails)
+   */
+  async page(
+    identifier: string,
+    name: string,
+    properties?: PageProperties,
+    options?: CallOptions
+  ): Promise<DryRunReport | DeliveryReport | void> {
+    return this.unwrap(await this.results.page(identifier, name, properties, options));
+  }
+
+  /**
+   * Track a mobile app screen view as a `screen_view` event. Sent like `track`; middleware sees a track call.
+   * @param identifier The person identifier
+   * @param name Name of the screen, e.g. "Checkout"
+   * @param properties The standard screen properties (appVersion, screenClass) and any other properties
+   * @param options Per-call options, e.g. a caller-supplied idempotency key
+   * @returns A DryRunReport instead of sending when dry-run is on, and a DeliveryReport with the
+   * outcome at each destination when dual-write is on
+   * @throws CDPError only when config.failOnException === true (e.g., when validation or request fails)
+   */
+  async screen(
+    identifier: string,
+    name: string,
+    properties?: ScreenProperties,
+    options?: CallOptions
+  ): Promise<DryRunReport | DeliveryReport | void> {
+    return this.unwrap(await this.results.screen(identifier, name, properties, options));
+  }
+
+  /**
+   * Track an event for a visitor who is not known yet, e.g. during checkout before signing up.
+   * Call `alias` once they sign up to move these events to their person.
+   * @param anonymousId The id the visitor is tracked under until they are identified, e.g. a cookie id
+   * @param eventName The event name
+   * @param properties Additional properties for the event
+   * @param options Per-call options, e.g. a caller-supplied idempotency key
+   * @returns A DryRunReport instead of sending when dry-run is on, and a DeliveryReport with the
+   * outcome at each destination when dual-write is on
+   * @throws CDPError only when config.failOnException === true (e.g., when validation or request fails)
+   */
+  async trackAnonymous<E extends EventName<Events>>(
+    anonymousId: string,
+    eventName: E,
+    properties?: Events[E],
+    options?: CallOptions
+  ): Promise<DryRunReport | DeliveryReport | void> {
+    return this.unwrap(await this.results.trackAnonymous(anonymousId, eventName, properties, options));
+  }
+
+  private async runTrackAnonymous(
+    anonymousId: string,
+    eventName: string,
+    properties?: Record<string, any>,
+    options?: CallOptions
+  ): Promise<DryRunReport | DeliveryReport | void> {
+    let validatedProps: Record<string, any>;
+    try {
+      validateAnonymousId(anonymousId);
+      validateEventName(eventName);
+      validatedProps = validateProperties(properties);
+      validateStandardProperties(eventName, validatedProps);
+      this.enforceTrackingPlan(validatedProps, eventName);
+    } catch (error) {
+      if (this.config.debug) {
+        this.logger.error("[CDP] trackAnonymous validation error", { error });
       }
+      throw toCDPError(error, { operation: "trackAnonymous" });
+    }
+    const normalizedProps = this.redactProperties(validatedProps);
 
-      try {
-        const response = await this.requestWithFailover('post', 
-          "/v1/send/email",
-          cleanPayload
-        );
+    return this.sendPersonUpdate(
+      { operation: "trackAnonymous", args: [anonymousId, eventName, normalizedProps] },
+      "/v1/persons/trackAnonymous",
+      { anonymousId, eventName, properties: normalizedProps },
+      options
+    );
+  }
 
-        if (this.config.debug) {
-          this.logger.debug(`[CDP] Email sent successfully to ${message.to}`);
+  /**
+   * Stitch an anonymous visitor to the person they turned out to be: the events tracked with
+   * `trackAnonymous` under `anonymousId` are merged into the person's history.
+   * @param anonymousId The id the visitor was tracked under
+   * @param identifier The person identifier, as used with `identify`
+   * @param options Per-call options, e.g. a caller-supplied idempotency key
+   * @returns A DryRunReport instead of sending when dry-run is on, and a DeliveryReport with the
+   * outcome at each destination when dual-write is on
+   * @throws CDPError only when config.failOnException === true (e.g., when validation or request fails)
+   */
+  async alias(
+    anonymousId: string,
+    identifier: string,
+    options?: CallOptions
+  ): Promise<DryRunReport | DeliveryReport | void> {
+    return this.unwrap(await this.results.alias(anonymousId, identifier, options));
+  }
+
+  /**
+   * Register a device for a person. A device must be registered to send push notifications
+   * @param identifier
+   * @param deviceRegistrationParameters
+   * @param options Per-call options, e.g. a caller-supplied idempotency key
+   * @returns A DryRunReport instead of sending when dry-run is on, and a DeliveryReport with the
+   * outcome at each destination when dual-write is on
+   * @throws CDPError only when config.failOnException === true (e.g., when validation or request fails)
+   */
+  async registerDevice(
+    identifier: string,
+    deviceRegistrationParameters: DeviceRegistrationParameters,
+    options?: CallOptions
+  ): Promise<DryRunReport | DeliveryReport | void> {
+    return this.unwrap(await this.results.registerDevice(identifier, deviceRegistrationParameters, options));
+  }
+
+  private async runRegisterDevice(
+    identifier: string,
+    deviceRegistrationParameters: DeviceRegistrationParameters,
+    options?: CallOptions
+  ): Promise<DryRunReport | DeliveryReport | void> {
+    const idempotencyKey = resolveIdempotencyKey(options);
+    try {
+      validateIdentifier(identifier);
+    } catch (error) {
+      if (this.config.debug) {
+        this.logger.error("[CDP] Register device validation error", {
+          error,
+        });
+      }
+      throw toCDPError(error, { operation: "registerDevice" });
+    }
+
+    if (this.isDryRun(options)) {
+      return this.dryRun("registerDevice", "post", "/v1/persons/registerDevice", {
+        payload: { identifier, ...deviceRegistrationParameters },
+        idempotencyKey,
+        destinations: this.previewDestinations({
+          operation: "registerDevice",
+          args: [identifier, deviceRegistrationParameters],
+        }),
+      });
+    }
+
+    return this.fanOut(
+      { operation: "registerDevice", args: [identifier, deviceRegistrationParameters] },
+      { idempotencyKey },
+      async () => {
+        try {
+          return await this.requestOrQueue(
+            "/v1/persons/registerDevice",
+            { identifier, ...deviceRegistrationParameters },
+            { operation: "registerDevice", idempotencyKey }
+          );
+        } catch (error) {
+          if (this.config.debug) {
+            // NB: Avoid logging large error objects directly to reduce memory footprint on high traffic apps
+            const errorSummary = summarizeError(error);
+            this.logger.error("[CDP] Register device error:", { errorSummary });
+          }
+          throw toCDPError(error, { operation: "registerDevice" });
         }
+      });
+  }
 
-        return response.data;
-      } catch (error) {
-        const errorSummary = {
-          message: error?.message,
-          status: error?.response?.status,
-          data: error?.response?.data?.message || "[truncated]",
-        };
-        if (this.config.debug) {
-          this.logger.error("[CDP] Send email error:", { errorSummary });
+  /**
+   * Suppress a person: they are no longer messaged, and data sent for them is ignored until they
+   * are unsuppressed. Note that Customer.io also deletes the person's profile when suppressing.
+   * @param identifier The person identifier
+   * @param options Per-call options, e.g. a caller-supplied idempotency key
+   * @returns A DryRunReport instead of sending when dry-run is on, and a DeliveryReport with the
+   * outcome at each destination when dual-write is on
+   * @throws CDPError only when config.failOnException === true (e.g., when validation or request fails)
+   */
+  async suppress(identifier: string, options?: CallOptions): Promise<DryRunReport | DeliveryReport | void> {
+    return this.unwrap(await this.results.suppress(identifier, options));
+  }
+
+  /**
+   * Lift a suppression, so the person can be messaged and updated again
+   * @param identifier The person identifier
+   * @param options Per-call options, e.g. a caller-supplied idempotency key
+   * @returns A DryRunReport instead of sending when dry-run is on, and a DeliveryReport with the
+   * outcome at each destination when dual-write is on
+   * @throws CDPError only when config.failOnException === true (e.g., when validation or request fails)
+   */
+  async unsuppress(identifier: string, options?: CallOptions): Promise<DryRunReport | DeliveryReport | void> {
+    return this.unwrap(await this.results.unsuppress(identifier, options));
+  }
+
+  /**
+   * Merge two people, e.g. duplicate profiles of the same customer. The secondary person's attributes,
+   * events and devices move to the primary person, and the secondary person is deleted.
+   * @param primary Identifier of the person that remains
+   * @param secondary Identifier of the person merged into the primary one and deleted
+   * @param options Per-call options, e.g. a caller-supplied idempotency key
+   * @returns A DryRunReport instead of sending when dry-run is on, and a DeliveryReport with the
+   * outcome at each destination when dual-write is on
+   * @throws CDPError only when config.failOnException === true (e.g., when validation or request fails)
+   */
+  async mergePersons(
+    primary: string,
+    secondary: string,
+    options?: CallOptions
+  ): Promise<DryRunReport | DeliveryReport | void> {
+    return this.unwrap(await this.results.mergePersons(primary, secondary, options));
+  }
+
+  /**
+   * Remove attributes from a person
+   * @param identifier The person identifier
+   * @param keys Names of the attributes to remove
+   * @param options Per-call options, e.g. a caller-supplied idempotency key
+   * @returns A DryRunReport instead of sending when dry-run is on, and a DeliveryReport with the
+   * outcome at each destination when dual-write is on
+   * @throws CDPError only when config.failOnException === true (e.g., when validation or request fails)
+   */
+  async unsetAttributes(
+    identifier: string,
+    keys: string[],
+    options?: CallOptions
+  ): Promise<DryRunReport | DeliveryReport | void> {
+    return this.unwrap(await this.results.unsetAttributes(identifier, keys, options));
+  }
+
+  /**
+   * Remove a device from a person, e.g. when they log out, so it no longer receives push notifications
+   * @param identifier The person identifier
+   * @param deviceId The deviceId the device was registered with
+   * @param options Per-call options, e.g. a caller-supplied idempotency key
+   * @returns A DryRunReport instead of sending when dry-run is on, and a DeliveryReport with the
+   * outcome at each destination when dual-write is on
+   * @throws CDPError only when config.failOnException === true (e.g., when validation or request fails)
+   */
+  async unregisterDevice(
+    identifier: string,
+    deviceId: string,
+    options?: CallOptions
+  ): Promise<DryRunReport | DeliveryReport | void> {
+    return this.unwrap(await this.results.unregisterDevice(identifier, deviceId, options));
+  }
+
+  /**
+   * Replace the push tokens of a registered device, e.g. after FCM or APNs rotated them
+   * @param identifier The person identifier
+   * @param deviceId The deviceId the device was registered with
+   * @param tokens The device platform and its new fcmToken and/or apnToken
+   * @param options Per-call options, e.g. a caller-supplied idempotency key
+   * @returns A DryRunReport instead of sending when dry-run is on, and a DeliveryReport with the
+   * outcome at each destination when dual-write is on
+   * @throws CDPError only when config.failOnException === true (e.g., when validation or request fails)
+   */
+  async updateDeviceToken(
+    identifier: string,
+    deviceId: string,
+    tokens: DeviceTokenUpdate,
+    options?: CallOptions
+  ): Promise<DryRunReport | DeliveryReport | void> {
+    return this.unwrap(await this.results.updateDeviceToken(identifier, deviceId, tokens, options));
+  }
+
+  /**
+   * Unregisters every device the push provider reported as invalid in a sendPush response
+   * (`invalid_devices`), so stale tokens stop being sent to. Never throws: devices that could
+   * not be unregistered are listed in `failed`.
+   * @param identifier The person the push was sent to
+   * @param response The response returned by sendPush
+   */
+  async unregisterInvalidDevices(
+    identifier: string,
+    response: SendPushResponse | undefined
+  ): Promise<UnregisterInvalidDevicesResult> {
+    const deviceIds = new Set((response?.invalid_devices || []).map((device) => device.device_id).filter(Boolean));
+    const outcome: UnregisterInvalidDevicesResult = { unregistered: [], failed: [] };
+    await Promise.all(
+      Array.from(deviceIds).map(async (deviceId) => {
+        const result = await this.results.unregisterDevice(identifier, deviceId);
+        if (result.ok === false) {
+          outcome.failed.push({ deviceId, error: result.error });
+        } else {
+          outcome.unregistered.push(deviceId);
         }
+      })
+    );
+    if (this.config.debug && deviceIds.size > 0) {
+      this.logger.debug(`[CDP] Unregistered ${outcome.unregistered.length}/${deviceIds.size} invalid device(s) for ${identifier}`);
+    }
+    return outcome;
+  }
 
-        // Clean up the error to remove technical details while preserving helpful information
-        const cleanError = error;
+  /**
+   * Runs a person update that is never batched: validation, then a single request to OpenCDP
+   * (queued offline when every gateway is down), written to the destinations at the same time.
+   */
+  private async runPersonUpdate(
+    call: DestinationCall,
+    path: string,
+    body: Record<string, any>,
+    validate: () => void,
+    options?: CallOptions
+  ): Promise<DryRunReport | DeliveryReport | void> {
+    const { operation } = call;
+    try {
+      validate();
+    } catch (error) {
+      if (this.config.debug) {
+        this.logger.error(`[CDP] ${operation} validation error`, { error });
+      }
+      throw toCDPError(error, { operation });
+    }
+    return this.sendPersonUpdate(call, path, body, options);
+  }
 
-        // Set consistent error properties
-        if (errorSummary.data) {
-          cleanError.message = errorSummary.data;
-        } else if (errorSummary.message) {
-          cleanError.message = errorSummary.message;
+  /**
+   * Sends a validated, unbatched call to OpenCDP and the destinations handling it
+   */
+  private async sendPersonUpdate(
+    call: DestinationCall,
+    path: string,
+    body: Record<string, any>,
+    options?: CallOptions
+  ): Promise<DryRunReport | DeliveryReport | void> {
+    const { operation } = call;
+    const idempotencyKey = resolveIdempotencyKey(options);
+    if (this.isDryRun(options)) {
+      return this.dryRun(operation, "post", path, {
+        payload: body,
+        idempotencyKey,
+        destinations: this.previewDestinations(call),
+      });
+    }
+
+    return this.fanOut(call, { idempotencyKey }, async () => {
+      try {
+        const queued = await this.requestOrQueue(path, body, { operation, idempotencyKey });
+        if (this.config.debug && !queued) {
+          this.logger.debug(`[CDP] ${operation} sent for ${call.args[0]}`);
         }
-        cleanError.name = "CDPEmailError";
-        cleanError.code = "EMAIL_SEND_FAILED";
-        cleanError.summary = errorSummary;
-        cleanError.status = error?.response?.status || 400;
-
-        // Remove technical details that clutter the error
-        delete cleanError.config;
-        delete cleanError.request;
-        // delete cleanError.response;
-        delete cleanError.stack;
-
-        if (this.config.failOnException) {
-          throw cleanError;
+        return queued;
+      } catch (error) {
+        if (this.config.debug) {
+          const errorSummary = summarizeError(error);
+          this.logger.error(`[CDP] ${operation} error`, { errorSummary });
         }
-        return { ok: false, error: cleanError };
+        throw toCDPError(error, { operation });
       }
     });
   }
 
+  /**
+   * Send an email using the CDP transactional email service
+   * @param request The send email request parameters
+   * @param options Per-call options, e.g. a caller-supplied idempotency key
+   * @returns Promise that resolves when the email is sent, with the gateway response and the `idempotencyKey` used (a DryRunReport when dry-run is on)
+  * @throws CDPError only when config.failOnException === true and validation or the request fails
+   */
+  async sendEmail(
+    request: SendEmailRequest,
+    options?: CallOptions
+  ): Promise<Record<string, any>> {
+    const result = await this.results.sendEmail(request, options);
+    // sendEmail has always reported failures as { ok: false, error } rather than undefined
+    if (!result.ok && !this.config.failOnException) {
+      return result;
+    }
+    return this.unwrap(result)!;
+  }
+
+  private async runSendEmail(
+    request: SendEmailRequest,
+    options?: CallOptions
+  ): Promise<Record<string, any>> {
+    const idempotencyKey = resolveIdempotencyKey(options);
+    try {
+      validateSendEmailRequest(request);
+    } catch (error) {
+      if (this.config.debug) {
+        this.logger.error("[CDP] Send email validation error", { error });
+      }
+      throw toCDPError(error, { operation: "sendEmail" });
+    }
+
+    // Check for unsupported fields and log warnings
+    this.warnUnsupportedFields(request);
+
+    // Build the request payload - pass through all fields as they match the schema
+    const message = request.message;
+    const emailPayload = {
+      to: message.to,
+      identifiers: message.identifiers,
+      message_data: message.message_data,
+      send_at: message.send_at,
+      disable_message_retention: message.disable_message_retention,
+      send_to_unsubscribed: message.send_to_unsubscribed,
+      queue_draft: message.queue_draft,
+      bcc: message.bcc,
+      cc: message.cc,
+      fake_bcc: message.fake_bcc,
+      reply_to: message.reply_to,
+      preheader: message.preheader,
+      headers: message.headers,
+      disable_css_preprocessing: message.disable_css_preprocessing,
+      tracked: message.tracked,
+      transactional_message_id:
+        "transactional_message_id" in message
+          ? message.transactional_message_id
+          : undefined,
+      body: "body" in message ? message.body : undefined,
+      body_amp: message.amp_body,
+      body_plain: message.plaintext_body,
+      subject: "subject" in message ? message.subject : undefined,
+      from: "from" in message ? message.from : undefined,
+      language: message.language,
+    };
+
+    // Remove undefined values to keep the payload clean
+    const cleanPayload = Object.fromEntries(
+      Object.entries(emailPayload).filter(([_, value]) => value !== undefined)
+    );
+    if (this.sendToCustomerIo && this.config.debug) {
+      // Warning that to avoid sending twice it will not be sent to CIO. to turn this off set sendToCustomerIo to false.
+      this.logger.warn(
+        "[CDP] Warning: Transactional messaging email will NOT be sent to Customer.io to avoid sending twice. To turn this warning off set `sendToCustomerIo` to false."
+      );
+    }
+
+    if (this.isDryRun(options)) {
+      return this.dryRun("sendEmail", "post", "/v1/send/email", { payload: cleanPayload, idempotencyKey });
+    }
+
+    try {
+      const response = await this.requestWithFailover(
+        "post",
+        "/v1/send/email",
+        cleanPayload,
+        { operation: "sendEmail", idempotencyKey }
+      );
+
+      if (this.config.debug) {
+        this.logger.debug("[CDP] Email sent successfully");
+      }
+
+      return { ...response.data, idempotencyKey };
+    } catch (error) {
+      const errorSummary = summarizeError(error);
+      if (this.config.debug) {
+        this.logger.error("[CDP] Send email error:", { errorSummary });
+      }
+
+      const cdpError = toCDPError(error, { operation: "sendEmail" });
+      throw cdpError;
+    }
+  }
+
   /**
    * Warns about unsupported fields that are accepted but not processed by the backend
    * @param request The send email request parameters
@@ -907,187 +2426,149 @@ export class CDPClient {
   /**
    * Send a push notification using the OpenCDP transactional push service
    * @param request The send push request parameters
-   * @returns Promise that resolves when the push notification is sent
-   * @throws Error only when config.failOnException === true and validation or the request fails
+   * @param options Per-call options, e.g. a caller-supplied idempotency key
+   * @returns Promise that resolves when the push notification is sent, with the gateway response and the `idempotencyKey` used (a DryRunReport when dry-run is on)
+   * @throws CDPError only when config.failOnException === true and validation or the request fails
    */
-  async sendPush(request: SendPushRequest): Promise<any> {
-    return this.limited(async () => {
-      try {
-        validateSendPushRequest(request);
-      } catch (error) {
-        if (this.config.debug) {
-          this.logger.error("[CDP] Send push validation error", { error });
-        }
-        if (this.config.failOnException) {
-          throw error;
-        }
-        return;
-      }
-
-      // Build the request payload - pass through all fields as they match the schema
-      const pushPayload = {
-        identifiers: request.identifiers,
-        transactional_message_id: request.transactional_message_id,
-        title: request.title,
-        body: request.body,
-        message_data: request.message_data,
-      };
+  async sendPush(request: SendPushRequest, options?: CallOptions): Promise<any> {
+    return this.unwrap(await this.results.sendPush(request, options));
+  }
 
-      // Remove undefined values to keep the payload clean
-      const cleanPayload = Object.fromEntries(
-        Object.entries(pushPayload).filter(([_, value]) => value !== undefined)
-      );
-      if (this.sendToCustomerIo && this.customerIoClient && this.config.debug) {
-        // Warning that to avoid sending twice it will not be sent to CIO. to turn this off set sendToCustomerIo to false.
-        this.logger.warn(
-          "[CDP] Warning: Transactional messaging push will NOT be sent to Customer.io to avoid sending twice. To turn this warning off set `sendToCustomerIo` to false."
-        );
+  private async runSendPush(request: SendPushRequest, options?: CallOptions): Promise<Record<string, any>> {
+    const idempotencyKey = resolveIdempotencyKey(options);
+    try {
+      validateSendPushRequest(request);
+    } catch (error) {
+      if (this.config.debug) {
+        this.logger.error("[CDP] Send push validation error", { error });
       }
+      throw toCDPError(error, { operation: "sendPush" });
+    }
 
-      try {
-        const response = await this.requestWithFailover('post', 
-          "/v1/send/push",
-          cleanPayload
-        );
-
-        if (this.config.debug) {
-          this.logger.debug(`[CDP] Push notification sent successfully`);
-        }
-
-        return response.data;
-      } catch (error) {
-        const errorSummary = {
-          message: error?.message,
-          status: error?.response?.status,
-          data: error?.response?.data?.message || "[truncated]",
-        };
-        if (this.config.debug) {
-          this.logger.error("[CDP] Send push error:", { errorSummary });
-        }
+    // Build the request payload - pass through all fields as they match the schema
+    const pushPayload = {
+      identifiers: request.identifiers,
+      transactional_message_id: request.transactional_message_id,
+      title: request.title,
+      body: request.body,
+      message_data: request.message_data,
+    };
+
+    // Remove undefined values to keep the payload clean
+    const cleanPayload = Object.fromEntries(
+      Object.entries(pushPayload).filter(([_, value]) => value !== undefined)
+    );
+    if (this.sendToCustomerIo && this.config.debug) {
+      // Warning that to avoid sending twice it will not be sent to CIO. to turn this off set sendToCustomerIo to false.
+      this.logger.warn(
+        "[CDP] Warning: Transactional messaging push will NOT be sent to Customer.io to avoid sending twice. To turn this warning off set `sendToCustomerIo` to false."
+      );
+    }
 
-        // Clean up the error to remove technical details while preserving helpful information
-        const cleanError = error;
-        if (errorSummary.data) {
-          cleanError.message = errorSummary.data;
-        } else if (errorSummary.message) {
-          cleanError.message = errorSummary.message;
-        }
+    if (this.isDryRun(options)) {
+      return this.dryRun("sendPush", "post", "/v1/send/push", { payload: cleanPayload, idempotencyKey });
+    }
 
-        // Set consistent error properties
-        cleanError.name = "CDPPushError";
-        cleanError.code = "PUSH_SEND_FAILED";
-        cleanError.summary = errorSummary;
-        cleanError.status = error?.response?.status || 400;
+    try {
+      const response = await this.requestWithFailover(
+        "post",
+        "/v1/send/push",
+        cleanPayload,
+        { operation: "sendPush", idempotencyKey }
+      );
 
-        // Remove technical details that clutter the error
-        delete cleanError.config;
-        delete cleanError.request;
-        delete cleanError.response;
-        delete cleanError.stack;
+      if (this.config.debug) {
+        this.logger.debug(`[CDP] Push notification sent successfully`);
+      }
 
-        if (this.config.failOnException) {
-          throw cleanError;
-        }
-        return;
+      return { ...response.data, idempotencyKey };
+    } catch (error) {
+      const errorSummary = summarizeError(error);
+      if (this.config.debug) {
+        this.logger.error("[CDP] Send push error:", { errorSummary });
       }
-    });
+
+      const cdpError = toCDPError(error, { operation: "sendPush" });
+      throw cdpError;
+    }
   }
 
   /**
    * Send an SMS using the OpenCDP transactional SMS service
    * @param request The send SMS request parameters
-   * @returns Promise that resolves when the SMS is sent
-   * @throws Error only when config.failOnException === true and validation or the request fails
+   * @param options Per-call options, e.g. a caller-supplied idempotency key
+   * @returns Promise that resolves when the SMS is sent, with the gateway response and the `idempotencyKey` used (a DryRunReport when dry-run is on)
+   * @throws CDPError only when config.failOnException === true and validation or the request fails
    */
-  async sendSms(request: SendSmsRequest): Promise<any> {
-    return this.limited(async () => {
-      try {
-        validateSendSmsRequest(request);
-      } catch (error) {
-        if (this.config.debug) {
-          this.logger.error("[CDP] Send SMS validation error", { error });
-        }
-        if (this.config.failOnException) {
-          throw error;
-        }
-        return;
-      }
-
-      // Build the request payload - pass through all fields as they match the schema
-      // Convert transactional_message_id to string if it's a number (backend expects string)
-      const transactionalMessageId =
-        request.transactional_message_id !== undefined &&
-          request.transactional_message_id !== null &&
-          request.transactional_message_id !== ""
-          ? String(request.transactional_message_id)
-          : undefined;
-
-      const smsPayload = {
-        identifiers: request.identifiers,
-        transactional_message_id: transactionalMessageId,
-        to: request.to,
-        from: request.from,
-        body: request.body,
-        message_data: request.message_data,
-      };
+  async sendSms(request: SendSmsRequest, options?: CallOptions): Promise<any> {
+    return this.unwrap(await this.results.sendSms(request, options));
+  }
 
-      // Remove undefined values to keep the payload clean
-      const cleanPayload = Object.fromEntries(
-        Object.entries(smsPayload).filter(([_, value]) => value !== undefined)
-      );
-      if (this.sendToCustomerIo && this.customerIoClient && this.config.debug) {
-        // Warning that to avoid sending twice it will not be sent to CIO. to turn this off set sendToCustomerIo to false.
-        this.logger.warn(
-          "[CDP] Warning: Transactional messaging SMS will NOT be sent to Customer.io to avoid sending twice. To turn this warning off set `sendToCustomerIo` to false."
-        );
+  private async runSendSms(request: SendSmsRequest, options?: CallOptions): Promise<Record<string, any>> {
+    const idempotencyKey = resolveIdempotencyKey(options);
+    try {
+      validateSendSmsRequest(request);
+    } catch (error) {
+      if (this.config.debug) {
+        this.logger.error("[CDP] Send SMS validation error", { error });
       }
+      throw toCDPError(error, { operation: "sendSms" });
+    }
 
-      try {
-        const response = await this.requestWithFailover('post', 
-          "/v1/send/sms",
-          cleanPayload
-        );
-
-        if (this.config.debug) {
-          this.logger.debug(`[CDP] SMS sent successfully`);
-        }
-
-        return response.data;
-      } catch (error) {
-        const errorSummary = {
-          message: error?.message,
-          status: error?.response?.status,
-          data: error?.response?.data?.message || "[truncated]",
-        };
-        if (this.config.debug) {
-          this.logger.error("[CDP] Send SMS error:", { errorSummary });
-        }
+    // Build the request payload - pass through all fields as they match the schema
+    // Convert transactional_message_id to string if it's a number (backend expects string)
+    const transactionalMessageId =
+      request.transactional_message_id !== undefined &&
+        request.transactional_message_id !== null &&
+        request.transactional_message_id !== ""
+        ? String(request.transactional_message_id)
+        : undefined;
+
+    const smsPayload = {
+      identifiers: request.identifiers,
+      transactional_message_id: transactionalMessageId,
+      to: request.to,
+      from: request.from,
+      body: request.body,
+      message_data: request.message_data,
+    };
+
+    // Remove undefined values to keep the payload clean
+    const cleanPayload = Object.fromEntries(
+      Object.entries(smsPayload).filter(([_, value]) => value !== undefined)
+    );
+    if (this.sendToCustomerIo && this.config.debug) {
+      // Warning that to avoid sending twice it will not be sent to CIO. to turn this off set sendToCustomerIo to false.
+      this.logger.warn(
+        "[CDP] Warning: Transactional messaging SMS will NOT be sent to Customer.io to avoid sending twice. To turn this warning off set `sendToCustomerIo` to false."
+      );
+    }
 
-        // Clean up the error to remove technical details while preserving helpful information
-        const cleanError = error;
-        if (errorSummary.data) {
-          cleanError.message = errorSummary.data;
-        } else if (errorSummary.message) {
-          cleanError.message = errorSummary.message;
-        }
+    if (this.isDryRun(options)) {
+      return this.dryRun("sendSms", "post", "/v1/send/sms", { payload: cleanPayload, idempotencyKey });
+    }
 
-        // Set consistent error properties
-        cleanError.name = "CDPSmsError";
-        cleanError.code = "SMS_SEND_FAILED";
-        cleanError.summary = errorSummary;
-        cleanError.status = error?.response?.status || 400;
+    try {
+      const response = await this.requestWithFailover(
+        "post",
+        "/v1/send/sms",
+        cleanPayload,
+        { operation: "sendSms", idempotencyKey }
+      );
 
-        // Remove technical details that clutter the error
-        delete cleanError.config;
-        delete cleanError.request;
-        delete cleanError.response;
-        delete cleanError.stack;
+      if (this.config.debug) {
+        this.logger.debug(`[CDP] SMS sent successfully`);
+      }
 
-        if (this.config.failOnException) {
-          throw cleanError;
-        }
-        return;
+      return { ...response.data, idempotencyKey };
+    } catch (error) {
+      const errorSummary = summarizeError(error);
+      if (this.config.debug) {
+        this.logger.error("[CDP] Send SMS error:", { errorSummary });
       }
-    });
+
+      const cdpError = toCDPError(error, { operation: "sendSms" });
+      throw cdpError;
+    }
   }
 }
@@ -0,0 +1,334 @@
+import { IdentifierType, RegionEU, RegionUS, TrackClient } from "customerio-node";
+import { CDPConfig, DeviceRegistrationParameters, DeviceTokenUpdate, TopicPreferences } from "./types";
+
+/**
+ * A call handed to destinations, after validation, middleware and PII redaction
+ */
+export type DestinationCall =
+  | { operation: "identify"; args: [identifier: string, traits: Record<string, any>] }
+  | { operation: "track"; args: [identifier: string, eventName: string, properties: Record<string, any>] }
+  | { operation: "trackAnonymous"; args: [anonymousId: string, eventName: string, properties: Record<string, any>] }
+  | { operation: "alias"; args: [anonymousId: string, identifier: string] }
+  | { operation: "group"; args: [identifier: string, groupId: string, traits: Record<string, any>] }
+  | { operation: "identifyGroup"; args: [groupId: string, traits: Record<string, any>] }
+  | { operation: "updateSubscriptionPreferences"; args: [identifier: string, topics: TopicPreferences] }
+  | { operation: "unsubscribe"; args: [identifier: string] }
+  | { operation: "resubscribe"; args: [identifier: string] }
+  | { operation: "registerDevice"; args: [identifier: string, device: DeviceRegistrationParameters] }
+  | { operation: "suppress"; args: [identifier: string] }
+  | { operation: "unsuppress"; args: [identifier: string] }
+  | { operation: "mergePersons"; args: [primary: string, secondary: string] }
+  | { operation: "unsetAttributes"; args: [identifier: string, keys: string[]] }
+  | { operation: "unregisterDevice"; args: [identifier: string, deviceId: string] }
+  | { operation: "updateDeviceToken"; args: [identifier: string, deviceId: string, tokens: DeviceTokenUpdate] };
+
+export type DestinationOperation = DestinationCall["operation"];
+
+export interface DestinationContext {
+  /** Idempotency key of the call, the same one sent to OpenCDP */
+  idempotencyKey: string;
+}
+
+/**
+ * Somewhere identify, track, device and person lifecycle calls are written to alongside OpenCDP.
+ * Pass destinations in `CDPConfig.destinations`; Customer.io dual-write is the built-in one.
+ *
+ * Implement the hooks for the calls the destination cares about. Every destination is written
+ * in parallel with OpenCDP and a failing destination never stops the others.
+ */
+export interface Destination {
+  /** Key of the destination in delivery reports and dual-write stats. Must be unique and not "cdp". */
+  readonly name: string;
+  identify?(identifier: string, traits: Record<string, any>, context: DestinationContext): Promise<unknown>;
+  track?(
+    identifier: string,
+    eventName: string,
+    properties: Record<string, any>,
+    context: DestinationContext
+  ): Promise<unknown>;
+  trackAnonymous?(
+    anonymousId: string,
+    eventName: string,
+    properties: Record<string, any>,
+    context: DestinationContext
+  ): Promise<unknown>;
+  /** Merges the events tracked for `anonymousId` into the person `identifier` */
+  alias?(anonymousId: string, identifier: string, context: DestinationContext): Promise<unknown>;
+  /** Adds the person to the group and updates the group's traits */
+  group?(identifier: string, groupId: string, traits: Record<string, any>, context: DestinationContext): Promise<unknown>;
+  identifyGroup?(groupId: string, traits: Record<string, any>, context: DestinationContext): Promise<unknown>;
+  /** Changes the listed topics only; other topics keep their state */
+  updateSubscriptionPreferences?(
+    identifier: string,
+    topics: TopicPreferences,
+    context: DestinationContext
+  ): Promise<unknown>;
+  unsubscribe?(identifier: string, context: DestinationContext): Promise<unknown>;
+  resubscribe?(identifier: string, context: DestinationContext): Promise<unknown>;
+  registerDevice?(
+    identifier: string,
+    device: DeviceRegistrationParameters,
+    context: DestinationContext
+  ): Promise<unknown>;
+  suppress?(identifier: string, context: DestinationContext): Promise<unknown>;
+  unsuppress?(identifier: string, context: DestinationContext): Promise<unknown>;
+  /** Merges `secondary` into `primary`; `secondary` is deleted */
+  mergePersons?(primary: string, secondary: string, context: DestinationContext): Promise<unknown>;
+  unsetAttributes?(identifier: string, keys: string[], context: DestinationContext): Promise<unknown>;
+  unregisterDevice?(identifier: string, deviceId: string, context: DestinationContext): Promise<unknown>;
+  updateDeviceToken?(
+    identifier: string,
+    deviceId: string,
+    tokens: DeviceTokenUpdate,
+    context: DestinationContext
+  ): Promise<unknown>;
+  /**
+   * Describes what the destination would send for a call, shown in dry-run reports.
+   * Without it the report shows the call itself.
+   */
+  preview?(call: DestinationCall): unknown;
+}
+
+/**
+ * True when the destination implements the hook for an operation
+ */
+export function handles(destination: Destination, operation: DestinationOperation): boolean {
+  return typeof destination[operation] === "function";
+}
+
+/**
+ * Calls the destination hook matching the call
+ */
+export function deliver(destination: Destination, call: DestinationCall, context: DestinationContext): Promise<unknown> {
+  switch (call.operation) {
+    case "identify":
+      return destination.identify!(...call.args, context);
+    case "track":
+      return destination.track!(...call.args, context);
+    case "trackAnonymous":
+      return destination.trackAnonymous!(...call.args, context);
+    case "alias":
+      return destination.alias!(...call.args, context);
+    case "group":
+      return destination.group!(...call.args, context);
+    case "identifyGroup":
+      return destination.identifyGroup!(...call.args, context);
+    case "updateSubscriptionPreferences":
+      return destination.updateSubscriptionPreferences!(...call.args, context);
+    case "unsubscribe":
+      return destination.unsubscribe!(...call.args, context);
+    case "resubscribe":
+      return destination.resubscribe!(...call.args, context);
+    case "registerDevice":
+      return destination.registerDevice!(...call.args, context);
+    case "suppress":
+      return destination.suppress!(...call.args, context);
+    case "unsuppress":
+      return destination.unsuppress!(...call.args, context);
+    case "mergePersons":
+      return destination.mergePersons!(...call.args, context);
+    case "unsetAttributes":
+      return destination.unsetAttributes!(...call.args, context);
+    case "unregisterDevice":
+      return destination.unregisterDevice!(...call.args, context);
+    case "updateDeviceToken":
+      return destination.updateDeviceToken!(...call.args, context);
+  }
+}
+
+type CustomerIoCall = { method: string; args: unknown[] };
+
+const DEFAULT_OBJECT_TYPE_ID = "1";
+
+/**
+ * Customer.io dual-write, enabled with `sendToCustomerIo` and `customerIo` in CDPConfig
+ */
+export class CustomerIoDestination implements Destination {
+  readonly name = "customerIo";
+  private readonly client: TrackClient;
+  private readonly objectTypeId: string;
+
+  constructor(config: NonNullable<CDPConfig["customerIo"]>) {
+    const region = config.region === "eu" ? RegionEU : RegionUS;
+    this.client = new TrackClient(config.siteId, config.apiKey, { region });
+    this.objectTypeId = config.objectTypeId || DEFAULT_OBJECT_TYPE_ID;
+  }
+
+  identify(identifier: string, traits: Record<string, any>): Promise<unknown> {
+    return this.client.identify(identifier, traits);
+  }
+
+  track(identifier: string, eventName: string, properties: Record<string, any>): Promise<unknown> {
+    return this.client.track(identifier, { name: eventName, data: properties });
+  }
+
+  trackAnonymous(anonymousId: string, eventName: string, properties: Record<string, any>): Promise<unknown> {
+    return this.client.trackAnonymous(anonymousId, { name: eventName, data: properties });
+  }
+
+  /**
+   * Customer.io merges anonymous events into a person identified with their `anonymous_id`
+   */
+  alias(anonymousId: string, identifier: string): Promise<unknown> {
+    return this.client.identify(identifier, { anonymous_id: anonymousId });
+  }
+
+  /**
+   * Groups are Customer.io objects. customerio-node has no objects API, so these go to the
+   * Track API v2 entity endpoint through the TrackClient's authenticated request.
+   */
+  group(identifier: string, groupId: string, traits: Record<string, any>): Promise<unknown> {
+    return this.client.request.post(this.entityUrl(), this.objectPayload(groupId, traits, identifier));
+  }
+
+  identifyGroup(groupId: string, traits: Record<string, any>): Promise<unknown> {
+    return this.client.request.post(this.entityUrl(), this.objectPayload(groupId, traits));
+  }
+
+  /**
+   * Topic preferences are the `cio_subscription_preferences` attribute. Each topic is set with
+   * dot notation, so topics that are not listed keep their state.
+   */
+  updateSubscriptionPreferences(identifier: string, topics: TopicPreferences): Promise<unknown> {
+    return this.client.identify(identifier, topicAttributes(topics));
+  }
+
+  unsubscribe(identifier: string): Promise<unknown> {
+    return this.client.identify(identifier, { unsubscribed: true });
+  }
+
+  resubscribe(identifier: string): Promise<unknown> {
+    return this.client.identify(identifier, { unsubscribed: false });
+  }
+
+  registerDevice(identifier: string, device: DeviceRegistrationParameters): Promise<unknown> {
+    return this.client.addDevice(identifier, device.deviceId, device.platform, device);
+  }
+
+  suppress(identifier: string): Promise<unknown> {
+    return this.client.suppress(identifier);
+  }
+
+  unsuppress(identifier: string): Promise<unknown> {
+    return this.client.unsuppress(identifier);
+  }
+
+  mergePersons(primary: string, secondary: string): Promise<unknown> {
+    return this.client.mergeCustomers(IdentifierType.Id, primary, IdentifierType.Id, secondary);
+  }
+
+  /**
+   * Customer.io removes attributes that are set to an empty string
+   */
+  unsetAttributes(identifier: string, keys: string[]): Promise<unknown> {
+    return this.client.identify(identifier, unsetAttributesPayload(keys));
+  }
+
+  unregisterDevice(identifier: string, deviceId: string): Promise<unknown> {
+    return this.client.deleteDevice(identifier, deviceId);
+  }
+
+  /**
+   * Replaces the device: the old registration is deleted and the device is added again with the new tokens
+   */
+  async updateDeviceToken(identifier: string, deviceId: string, tokens: DeviceTokenUpdate): Promise<unknown> {
+    await this.client.deleteDevice(identifier, deviceId);
+    return this.client.addDevice(identifier, deviceId, tokens.platform, { deviceId, ...tokens });
+  }
+
+  /**
+   * The customerio-node TrackClient method(s) and arguments a call maps to
+   */
+  preview(call: DestinationCall): CustomerIoCall | CustomerIoCall[] {
+    switch (call.operation) {
+      case "identify":
+        return { method: "identify", args: call.args };
+      case "track": {
+        const [identifier, eventName, properties] = call.args;
+        return { method: "track", args: [identifier, { name: eventName, data: properties }] };
+      }
+      case "trackAnonymous": {
+        const [anonymousId, eventName, properties] = call.args;
+        return { method: "trackAnonymous", args: [anonymousId, { name: eventName, data: properties }] };
+      }
+      case "alias": {
+        const [anonymousId, identifier] = call.args;
+        return { method: "identify", args: [identifier, { anonymous_id: anonymousId }] };
+      }
+      case "group": {
+        const [identifier, groupId, traits] = call.args;
+        return { method: "request.post", args: [this.entityUrl(), this.objectPayload(groupId, traits, identifier)] };
+      }
+      case "identifyGroup": {
+        const [groupId, traits] = call.args;
+        return { method: "request.post", args: [this.entityUrl(), this.objectPayload(groupId, traits)] };
+      }
+      case "updateSubscriptionPreferences": {
+        const [identifier, topics] = call.args;
+        return { method: "identify", args: [identifier, topicAttributes(topics)] };
+      }
+      case "unsubscribe":
+      case "resubscribe": {
+        const [identifier] = call.args;
+        return { method: "identify", args: [identifier, { unsubscribed: call.operation === "unsubscribe" }] };
+      }
+      case "registerDevice": {
+        const [identifier, device] = call.args;
+        return { method: "addDevice", args: [identifier, device.deviceId, device.platform, device] };
+      }
+      case "suppress":
+      case "unsuppress":
+        return { method: call.operation, args: call.args };
+      case "mergePersons": {
+        const [primary, secondary] = call.args;
+        return { method: "mergeCustomers", args: [IdentifierType.Id, primary, IdentifierType.Id, secondary] };
+      }
+      case "unsetAttributes": {
+        const [identifier, keys] = call.args;
+        return { method: "identify", args: [identifier, unsetAttributesPayload(keys)] };
+      }
+      case "unregisterDevice":
+        return { method: "deleteDevice", args: call.args };
+      case "updateDeviceToken": {
+        const [identifier, deviceId, tokens] = call.args;
+        return [
+          { method: "deleteDevice", args: [identifier, deviceId] },
+          { method: "addDevice", args: [identifier, deviceId, tokens.platform, { deviceId, ...tokens }] },
+        ];
+      }
+    }
+  }
+
+  private entityUrl(): string {
+    return `${this.client.trackRoot.replace(/\/v1$/, "/v2")}/entity`;
+  }
+
+  /**
+   * Track API v2 object identify, relating the person to the object when one is given
+   */
+  private objectPayload(groupId: string, traits: Record<string, any>, identifier?: string): Record<string, any> {
+    return {
+      type: "object",
+      identifiers: { object_type_id: this.objectTypeId, object_id: groupId },
+      action: "identify",
+      attributes: traits,
+      ...(identifier === undefined ? {} : { cio_relationships: [{ identifiers: { id: identifier } }] }),
+    };
+  }
+}
+
+function unsetAttributesPayload(keys: string[]): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  for (const key of keys) {
+    attributes[key] = "";
+  }
+  return attributes;
+}
+
+function topicAttributes(topics: TopicPreferences): Record<string, boolean> {
+  const attributes: Record<string, boolean> = {};
+  for (const [topic, subscribed] of Object.entries(topics)) {
+    attributes[`cio_subscription_preferences.topics.${topic}`] = subscribed as boolean;
+  }
+  return attributes;
+}
@@ -0,0 +1,249 @@
+import { CDPOperation, DestinationOutcome } from "./types";
+import { parseRetryAfter } from "./retry";
+import type { SchemaViolation } from "./tracking_plan";
+
+/**
+ * How a failed request is classified.
+ * - network: no response was received (DNS, connection refused/reset, ...)
+ * - timeout: the request timed out locally or the gateway answered 408
+ * - rate_limit: the gateway answered 429
+ * - server: the gateway answered 5xx
+ * - client: any other non-2xx answer (400, 401, 404, ...), a request rejected by local validation,
+ *   or an error thrown by local code (middleware, a destination, a bug) before anything was sent
+ */
+export type ErrorClassification = "network" | "timeout" | "rate_limit" | "server" | "client";
+
+/**
+ * Stable error codes carried by every CDPError
+ */
+export type CDPErrorCode =
+  | "VALIDATION_ERROR"
+  | "AUTH_ERROR"
+  | "RATE_LIMITED"
+  | "NETWORK_ERROR"
+  | "TIMEOUT"
+  | "SERVER_ERROR"
+  | "CIRCUIT_OPEN"
+  | "REQUEST_FAILED";
+
+const TIMEOUT_CODES = ["ECONNABORTED", "ETIMEDOUT", "ESOCKETTIMEDOUT"];
+const NETWORK_CODES = [
+  "ERR_NETWORK",
+  "ECONNRESET",
+  "ECONNREFUSED",
+  "ENOTFOUND",
+  "EAI_AGAIN",
+  "EHOSTUNREACH",
+  "ENETUNREACH",
+  "EPIPE",
+];
+
+export interface CDPErrorOptions {
+  status?: number;
+  gatewayUrl?: string;
+  operation?: CDPOperation;
+  classification?: ErrorClassification;
+  responseData?: unknown;
+  idempotencyKey?: string;
+  cause?: unknown;
+}
+
+/**
+ * Base class for every error thrown (or returned) by CDPClient
+ */
+export class CDPError extends Error {
+  readonly code: CDPErrorCode;
+  /** HTTP status returned by the gateway, if any */
+  status?: number;
+  /** Gateway base URL the failing request was sent to */
+  gatewayUrl?: string;
+  /** SDK operation that failed, e.g. "track" or "sendEmail" */
+  operation?: CDPOperation;
+  classification: ErrorClassification;
+  /** True when sending the same request again may succeed */
+  retryable: boolean;
+  /** Body of the gateway response, if any */
+  responseData?: unknown;
+  idempotencyKey?: string;
+  /** The underlying error (axios, Customer.io, ...) */
+  cause?: unknown;
+  /** Outcome at each destination when the call was dual-written */
+  destinations?: Record<string, DestinationOutcome>;
+
+  constructor(message: string, code: CDPErrorCode = "REQUEST_FAILED", options: CDPErrorOptions = {}) {
+    super(message);
+    this.name = new.target.name;
+    this.code = code;
+    this.status = options.status;
+    this.gatewayUrl = options.gatewayUrl;
+    this.operation = options.operation;
+    this.classification = options.classification ?? "client";
+    this.retryable = this.classification !== "client";
+    this.responseData = options.responseData;
+    this.idempotencyKey = options.idempotencyKey;
+    this.cause = options.cause;
+  }
+}
+
+/**
+ * The request was rejected by local validation or by the gateway (400/422)
+ */
+export class CDPValidationError extends CDPError {
+  constructor(message: string, options: CDPErrorOptions = {}) {
+    super(message, "VALIDATION_ERROR", { ...options, classification: "client" });
+  }
+}
+
+/**
+ * A call broke the tracking plan in strict mode. `violations` lists every problem found.
+ */
+export class CDPTrackingPlanError extends CDPValidationError {
+  readonly violations: SchemaViolation[];
+
+  constructor(message: string, violations: SchemaViolation[], options: CDPErrorOptions = {}) {
+    super(message, options);
+    this.violations = violations;
+  }
+}
+
+/**
+ * The API key was rejected (401/403)
+ */
+export class CDPAuthError extends CDPError {
+  constructor(message: string, options: CDPErrorOptions = {}) {
+    super(message, "AUTH_ERROR", { ...options, classification: "client" });
+  }
+}
+
+/**
+ * The gateway is rate limiting (429). `retryAfterMs` is taken from the Retry-After header when present.
+ */
+export class CDPRateLimitError extends CDPError {
+  retryAfterMs?: number;
+
+  constructor(message: string, options: CDPErrorOptions & { retryAfterMs?: number } = {}) {
+    super(message, "RATE_LIMITED", { ...options, classification: "rate_limit" });
+    this.retryAfterMs = options.retryAfterMs;
+  }
+}
+
+/**
+ * No usable response was received: connection failures, DNS errors and timeouts (including 408)
+ */
+export class CDPNetworkError extends CDPError {
+  constructor(message: string, options: CDPErrorOptions = {}) {
+    const classification = options.classification === "timeout" ? "timeout" : "network";
+    super(message, classification === "timeout" ? "TIMEOUT" : "NETWORK_ERROR", { ...options, classification });
+  }
+}
+
+/**
+ * The gateway failed with a 5xx
+ */
+export class CDPServerError extends CDPError {
+  constructor(message: string, options: CDPErrorOptions = {}) {
+    super(message, "SERVER_ERROR", { ...options, classification: "server" });
+  }
+}
+
+/**
+ * Every gateway's circuit is open, so the request was not sent. Retryable once a circuit cools down.
+ */
+export class CDPCircuitOpenError extends CDPError {
+  constructor(message: string, options: CDPErrorOptions = {}) {
+    super(message, "CIRCUIT_OPEN", { ...options, classification: "network" });
+  }
+}
+
+/**
+ * HTTP status of an axios error or a Customer.io request error
+ */
+function statusOf(error: any): number | undefined {
+  return error?.response?.status ?? error?.statusCode;
+}
+
+/**
+ * True when a request was sent but no response came back (axios sets `request` on such errors),
+ * as opposed to an error thrown by local code before or after sending
+ */
+function isTransportError(error: any): boolean {
+  return Boolean(error?.request) || TIMEOUT_CODES.includes(error?.code) || NETWORK_CODES.includes(error?.code);
+}
+
+export function classifyError(error: any): ErrorClassification {
+  if (error instanceof CDPError) {
+    return error.classification;
+  }
+  const status = statusOf(error);
+  if (status === undefined) {
+    if (!isTransportError(error)) {
+      return "client";
+    }
+    return TIMEOUT_CODES.includes(error?.code) ? "timeout" : "network";
+  }
+  if (status === 408) {
+    return "timeout";
+  }
+  if (status === 429) {
+    return "rate_limit";
+  }
+  if (status >= 500) {
+    return "server";
+  }
+  return "client";
+}
+
+/**
+ * Network errors, timeouts, rate limiting and 5xx are worth sending again (to the same or
+ * another gateway). Everything else, including errors thrown by local code, would fail the
+ * same way and is not retried.
+ */
+export function isRetryableError(error: any): boolean {
+  return classifyError(error) !== "client";
+}
+
+/**
+ * Converts any error into the matching CDPError subclass. CDPErrors are returned as they are,
+ * with missing context (operation, gateway, idempotency key) filled in.
+ */
+export function toCDPError(error: any, context: CDPErrorOptions = {}): CDPError {
+  if (error instanceof CDPError) {
+    error.operation = error.operation ?? context.operation;
+    error.gatewayUrl = error.gatewayUrl ?? context.gatewayUrl;
+    error.idempotencyKey = error.idempotencyKey ?? context.idempotencyKey;
+    return error;
+  }
+
+  const status = statusOf(error);
+  const responseData = error?.response?.data;
+  const message =
+    (typeof responseData?.message === "string" && responseData.message) ||
+    error?.message ||
+    String(error);
+  const options: CDPErrorOptions = {
+    ...context,
+    status,
+    responseData,
+    classification: classifyError(error),
+    cause: error,
+  };
+
+  if (status === 408 || (status === undefined && isTransportError(error))) {
+    return new CDPNetworkError(message, options);
+  }
+  if (status === 401 || status === 403) {
+    return new CDPAuthError(message, options);
+  }
+  if (status === 429) {
+    const headers = error?.response?.headers;
+    const retryAfterMs = parseRetryAfter(headers?.["retry-after"] ?? headers?.["Retry-After"]);
+    return new CDPRateLimitError(message, { ...options, retryAfterMs });
+  }
+  if (status >= 500) {
+    return new CDPServerError(message, options);
+  }
+  if (status === 400 || status === 422) {
+    return new CDPValidationError(message, options);
+  }
+  return new CDPError(message, "REQUEST_FAILED", options);
+}
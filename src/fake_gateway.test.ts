@@ -0,0 +1,213 @@
+import { afterEach, beforeEach, describe, expect, it } from '@jest/globals';
+import axios from 'axios';
+import { CDPClient } from './client';
+import { FakeGateway } from './fake_gateway';
+import { CDPAuthError, CDPNetworkError, CDPValidationError } from './errors';
+import { SendEmailRequest } from './types';
+
+describe('FakeGateway', () => {
+    let primary: FakeGateway;
+    let fallback: FakeGateway;
+    let client: CDPClient;
+
+    beforeEach(async () => {
+        primary = new FakeGateway({ apiKey: 'test-api-key' });
+        fallback = new FakeGateway({ apiKey: 'test-api-key' });
+        await primary.start();
+        await fallback.start();
+        client = new CDPClient({
+            cdpApiKey: 'test-api-key',
+            cdpEndpoint: primary.url,
+            cdpFallbackEndpoints: [fallback.url],
+            failOnException: true,
+            timeout: 500
+        });
+    });
+
+    afterEach(async () => {
+        client.close();
+        await primary.stop();
+        await fallback.stop();
+    });
+
+    it('should store identify, track and registerDevice calls', async () => {
+        await client.ping();
+        await client.identify('user-123', { plan: 'pro' });
+        await client.identify('user-123', { email: 'jane@example.com' });
+        await client.track('user-123', 'purchase', { amount: 10 });
+        await client.registerDevice('user-123', { deviceId: 'd1', platform: 'ios', fcmToken: 'token' });
+
+        expect(primary.persons.get('user-123')).toEqual({
+            identifier: 'user-123',
+            attributes: { plan: 'pro', email: 'jane@example.com' },
+            events: [{ eventName: 'purchase', properties: { amount: 10 }, receivedAt: expect.any(Number) }],
+            devices: { d1: { deviceId: 'd1', platform: 'ios', fcmToken: 'token' } }
+        });
+        expect(primary.received.map((request) => request.route)).toEqual(['ping', 'identify', 'identify', 'track', 'registerDevice']);
+        expect(primary.requestsTo('track')[0].idempotencyKey).toEqual(expect.any(String));
+        expect(fallback.received).toHaveLength(0);
+    });
+
+    it('should apply lifecycle calls to stored people', async () => {
+        await client.identify('user-123', { plan: 'pro', email: 'jane@example.com' });
+        await client.identify('user-456', { plan: 'free', company: 'Acme' });
+        await client.track('user-456', 'signup');
+
+        await client.mergePersons('user-123', 'user-456');
+        await client.unsetAttributes('user-123', ['email']);
+        await client.suppress('user-123');
+
+        expect(primary.persons.has('user-456')).toBe(false);
+        expect(primary.persons.get('user-123')).toMatchObject({
+            attributes: { plan: 'pro', company: 'Acme' },
+            events: [{ eventName: 'signup' }],
+            suppressed: true
+        });
+        await expect(client.mergePersons('user-123', 'user-123')).rejects.toBeInstanceOf(CDPValidationError);
+    });
+
+    it('should merge anonymous events into the aliased person', async () => {
+        await client.trackAnonymous('anon-1', 'landing_viewed');
+        await client.identify('user-123', { plan: 'pro' });
+        await client.trackAnonymous('anon-1', 'checkout_started', { cart_value: 42 });
+        await client.alias('anon-1', 'user-123');
+
+        expect(primary.anonymousEvents.has('anon-1')).toBe(false);
+        expect(primary.persons.get('user-123')?.events.map((event) => event.eventName)).toEqual([
+            'landing_viewed',
+            'checkout_started'
+        ]);
+        await expect(client.alias('', 'user-123')).rejects.toBeInstanceOf(CDPValidationError);
+    });
+
+    it('should store groups and their members', async () => {
+        await client.identifyGroup('acme', { plan: 'pro', seats: 10 });
+        await client.group('user-123', 'acme', { seats: 12 });
+        await client.group('user-456', 'acme');
+        await client.group('user-123', 'acme');
+
+        expect(primary.groups.get('acme')).toEqual({
+            groupId: 'acme',
+            traits: { plan: 'pro', seats: 12 },
+            members: ['user-123', 'user-456']
+        });
+        expect(primary.persons.has('user-456')).toBe(true);
+    });
+
+    it('should maintain manual segment membership', async () => {
+        await client.addToSegment('beta-access', ['user-1', 'user-2', 'user-3'], { chunkSize: 2 });
+        await client.removeFromSegment('beta-access', ['user-2']);
+
+        expect(primary.segments.get('beta-access')).toEqual(['user-1', 'user-3']);
+        expect(primary.requestsTo('addToSegment')).toHaveLength(2);
+    });
+
+    it('should store subscription preferences', async () => {
+        await expect(client.getSubscriptionPreferences('user-123')).resolves.toEqual({ unsubscribed: false, topics: {} });
+
+        await client.updateSubscriptionPreferences('user-123', { topics: { topic_1: true, topic_2: true } });
+        await client.updateSubscriptionPreferences('user-123', { topics: { topic_2: false } });
+        await client.unsubscribe('user-123');
+
+        await expect(client.getSubscriptionPreferences('user-123')).resolves.toEqual({
+            unsubscribed: true,
+            topics: { topic_1: true, topic_2: false }
+        });
+        expect(primary.requestsTo('getSubscriptionPreferences')[0].body).toEqual({ identifier: 'user-123' });
+    });
+
+    it('should report pushes to invalidated tokens and drop unregistered devices', async () => {
+        await client.registerDevice('user-123', { deviceId: 'd1', platform: 'android', fcmToken: 'fcm-1' });
+        await client.registerDevice('user-123', { deviceId: 'd2', platform: 'ios', fcmToken: 'fcm-2', apnToken: 'apn-2' });
+        await client.updateDeviceToken('user-123', 'd2', { platform: 'ios', apnToken: 'apn-3' });
+        primary.invalidateToken('fcm-1');
+
+        const push = await client.sendPush({ identifiers: { id: 'user-123' }, transactional_message_id: 'PUSH' });
+        expect(push.invalid_devices).toEqual([{ device_id: 'd1', token: 'fcm-1', reason: 'UNREGISTERED' }]);
+
+        await expect(client.unregisterInvalidDevices('user-123', push)).resolves.toEqual({ unregistered: ['d1'], failed: [] });
+        expect(primary.persons.get('user-123')?.devices).toEqual({
+            d2: { deviceId: 'd2', platform: 'ios', fcmToken: 'fcm-2', apnToken: 'apn-3' }
+        });
+    });
+
+    it('should answer the send APIs with a delivery id', async () => {
+        const email = await client.sendEmail(new SendEmailRequest({
+            to: 'jane@example.com',
+            identifiers: { id: 'user-123' },
+            transactional_message_id: 'WELCOME'
+        }));
+        const push = await client.sendPush({ identifiers: { id: 'user-123' }, transactional_message_id: 'PUSH' });
+        const sms = await client.sendSms({ identifiers: { id: 'user-123' }, body: 'Hi' });
+
+        expect(email).toMatchObject({ delivery_id: 'fake-delivery-1' });
+        expect(push).toMatchObject({ delivery_id: 'fake-delivery-2' });
+        expect(sms).toMatchObject({ delivery_id: 'fake-delivery-3' });
+        expect(primary.requestsTo('sendEmail')[0].body).toMatchObject({ to: 'jane@example.com', transactional_message_id: 'WELCOME' });
+    });
+
+    it('should validate payloads and API keys like the real gateway', async () => {
+        const direct = (path: string, body: unknown, apiKey = 'test-api-key') =>
+            axios.post(`${primary.url}${path}`, body, { headers: { Authorization: apiKey }, validateStatus: () => true });
+
+        await expect(direct('/v1/persons/track', { identifier: 'user-123' })).resolves.toMatchObject({
+            status: 400,
+            data: { message: 'eventName is required' }
+        });
+        await expect(direct('/v1/send/push', { identifiers: { id: 'a', email: 'b' }, transactional_message_id: 'X' })).resolves.toMatchObject({
+            status: 400,
+            data: { message: 'identifiers must contain exactly one of: id, email, cdp_id' }
+        });
+        await expect(direct('/v1/persons/identify', { identifier: 'user-123' }, 'wrong-key')).resolves.toMatchObject({ status: 401 });
+        await expect(direct('/v1/persons/unknown', {})).resolves.toMatchObject({ status: 404 });
+
+        const wrongKey = new CDPClient({ cdpApiKey: 'wrong-key', cdpEndpoint: primary.url, cdpFallbackEndpoints: [], failOnException: true });
+        await expect(wrongKey.identify('user-123')).rejects.toBeInstanceOf(CDPAuthError);
+        wrongKey.close();
+    });
+
+    it('should fail over when a route is down and not replay client errors', async () => {
+        primary.outage('track');
+
+        await client.track('user-123', 'purchase');
+        expect(primary.requestsTo('track')).toHaveLength(1);
+        expect(fallback.persons.get('user-123')?.events).toHaveLength(1);
+
+        primary.clearScripts();
+        primary.script('identify', { status: 422, body: { message: 'identifier is too long' }, times: 1 });
+        await expect(client.identify('user-123')).rejects.toBeInstanceOf(CDPValidationError);
+        expect(fallback.requestsTo('identify')).toHaveLength(0);
+    });
+
+    it('should deduplicate retried requests by idempotency key', async () => {
+        const retrying = new CDPClient({
+            cdpApiKey: 'test-api-key',
+            cdpEndpoint: primary.url,
+            cdpFallbackEndpoints: [],
+            failOnException: true,
+            retry: { maxAttempts: 2, baseDelayMs: 1, jitter: false }
+        });
+        primary.script('track', { status: 503, times: 1 });
+
+        await retrying.track('user-123', 'purchase', { amount: 10 }, { idempotencyKey: 'purchase-1' });
+        await retrying.track('user-123', 'purchase', { amount: 10 }, { idempotencyKey: 'purchase-1' });
+
+        expect(primary.requestsTo('track').map((request) => [request.status, request.replayed])).toEqual([
+            [503, false],
+            [200, false],
+            [200, true]
+        ]);
+        expect(primary.persons.get('user-123')?.events).toHaveLength(1);
+        retrying.close();
+    });
+
+    it('should apply scripted latency', async () => {
+        primary.script('*', { latencyMs: 1000 });
+
+        await expect(client.identify('user-123')).resolves.toBeUndefined();
+        expect(fallback.requestsTo('identify')).toHaveLength(1);
+
+        fallback.outage();
+        await expect(client.ping()).rejects.toBeInstanceOf(CDPNetworkError);
+    });
+});
@@ -0,0 +1,602 @@
+import * as http from "http";
+import { AddressInfo } from "net";
+
+/**
+ * Routes served by FakeGateway
+ */
+export type FakeGatewayRoute =
+  | "ping"
+  | "identify"
+  | "track"
+  | "trackAnonymous"
+  | "alias"
+  | "group"
+  | "identifyGroup"
+  | "addToSegment"
+  | "removeFromSegment"
+  | "getSubscriptionPreferences"
+  | "updateSubscriptionPreferences"
+  | "unsubscribe"
+  | "resubscribe"
+  | "registerDevice"
+  | "unregisterDevice"
+  | "updateDeviceToken"
+  | "suppress"
+  | "unsuppress"
+  | "mergePersons"
+  | "unsetAttributes"
+  | "batch"
+  | "sendEmail"
+  | "sendSms"
+  | "sendPush";
+
+const ROUTES: Record<string, { method: "GET" | "POST"; route: FakeGatewayRoute }> = {
+  "/v1/health/ping": { method: "GET", route: "ping" },
+  "/v1/persons/identify": { method: "POST", route: "identify" },
+  "/v1/persons/track": { method: "POST", route: "track" },
+  "/v1/persons/trackAnonymous": { method: "POST", route: "trackAnonymous" },
+  "/v1/persons/alias": { method: "POST", route: "alias" },
+  "/v1/persons/group": { method: "POST", route: "group" },
+  "/v1/groups/identify": { method: "POST", route: "identifyGroup" },
+  "/v1/segments/add": { method: "POST", route: "addToSegment" },
+  "/v1/segments/remove": { method: "POST", route: "removeFromSegment" },
+  "/v1/persons/subscriptionPreferences": { method: "GET", route: "getSubscriptionPreferences" },
+  "/v1/persons/updateSubscriptionPreferences": { method: "POST", route: "updateSubscriptionPreferences" },
+  "/v1/persons/unsubscribe": { method: "POST", route: "unsubscribe" },
+  "/v1/persons/resubscribe": { method: "POST", route: "resubscribe" },
+  "/v1/persons/registerDevice": { method: "POST", route: "registerDevice" },
+  "/v1/persons/unregisterDevice": { method: "POST", route: "unregisterDevice" },
+  "/v1/persons/updateDeviceToken": { method: "POST", route: "updateDeviceToken" },
+  "/v1/persons/suppress": { method: "POST", route: "suppress" },
+  "/v1/persons/unsuppress": { method: "POST", route: "unsuppress" },
+  "/v1/persons/merge": { method: "POST", route: "mergePersons" },
+  "/v1/persons/unsetAttributes": { method: "POST", route: "unsetAttributes" },
+  "/v1/persons/batch": { method: "POST", route: "batch" },
+  "/v1/send/email": { method: "POST", route: "sendEmail" },
+  "/v1/send/sms": { method: "POST", route: "sendSms" },
+  "/v1/send/push": { method: "POST", route: "sendPush" },
+};
+
+export interface FakeGatewayOptions {
+  /**
+   * Port to listen on. Default: 0 (a free port, see `url` once started).
+   */
+  port?: number;
+  /**
+   * Default: 127.0.0.1.
+   */
+  host?: string;
+  /**
+   * When set, requests whose Authorization header differs are answered with 401.
+   */
+  apiKey?: string;
+}
+
+/**
+ * Scripted behaviour for a route (or every route with "*"). Scripts are consulted in the order
+ * they were added; the first one with uses left applies.
+ */
+export interface FakeGatewayScript {
+  /** Delay before answering, in milliseconds */
+  latencyMs?: number;
+  /** Answer with this status (and `body`) instead of handling the request */
+  status?: number;
+  body?: unknown;
+  headers?: Record<string, string>;
+  /** Drop the connection without answering, like an unreachable gateway */
+  outage?: boolean;
+  /** Number of requests the script applies to. Default: every request until `clearScripts()` */
+  times?: number;
+}
+
+export interface ReceivedRequest {
+  route: FakeGatewayRoute;
+  method: string;
+  path: string;
+  headers: http.IncomingHttpHeaders;
+  /** Parsed JSON body, or the query parameters of a GET request */
+  body: any;
+  idempotencyKey?: string;
+  /** Status the gateway answered with (undefined for outages) */
+  status?: number;
+  /** True when the answer was replayed for an idempotency key seen before */
+  replayed: boolean;
+  receivedAt: number;
+}
+
+export interface FakeEvent {
+  eventName: string;
+  properties: Record<string, any>;
+  receivedAt: number;
+}
+
+export interface FakePerson {
+  identifier: string;
+  attributes: Record<string, any>;
+  events: FakeEvent[];
+  devices: Record<string, Record<string, any>>;
+  /** Set by suppress and unsuppress */
+  suppressed?: boolean;
+  /** Set by unsubscribe and resubscribe */
+  unsubscribed?: boolean;
+  /** Set by updateSubscriptionPreferences */
+  topics?: Record<string, boolean>;
+}
+
+export interface FakeGroup {
+  groupId: string;
+  traits: Record<string, any>;
+  /** Identifiers of the people added with group(), in order */
+  members: string[];
+}
+
+interface ActiveScript extends FakeGatewayScript {
+  route: FakeGatewayRoute | "*";
+  remaining: number;
+}
+
+interface Answer {
+  status: number;
+  body: unknown;
+  headers?: Record<string, string>;
+}
+
+class RequestValidationError extends Error {}
+
+function requireString(value: unknown, field: string): void {
+  if (typeof value !== "string" || value.trim() === "") {
+    throw new RequestValidationError(`${field} is required`);
+  }
+}
+
+function requireObject(value: unknown, field: string): void {
+  if (value !== undefined && (value === null || typeof value !== "object" || Array.isArray(value))) {
+    throw new RequestValidationError(`${field} must be an object`);
+  }
+}
+
+function requireIdentifiers(identifiers: any, allowed: string[]): void {
+  if (!identifiers || typeof identifiers !== "object") {
+    throw new RequestValidationError("identifiers is required");
+  }
+  const present = allowed.filter(
+    (key) => identifiers[key] !== undefined && identifiers[key] !== null && identifiers[key] !== ""
+  );
+  if (present.length !== 1) {
+    throw new RequestValidationError(`identifiers must contain exactly one of: ${allowed.join(", ")}`);
+  }
+}
+
+/**
+ * Local stand-in for an OpenCDP gateway, for integration tests. Implements the routes the SDK
+ * calls, validates payloads, stores what it receives, deduplicates by Idempotency-Key and can be
+ * scripted to be slow, fail with a status code or be unreachable, per route.
+ *
+ *   const gateway = new FakeGateway();
+ *   await gateway.start();
+ *   const client = new CDPClient({ cdpApiKey: "test", cdpEndpoint: gateway.url, cdpFallbackEndpoints: [] });
+ */
+export class FakeGateway {
+  /** Every request received, in arrival order */
+  readonly received: ReceivedRequest[] = [];
+  /** People built up from identify, track, registerDevice and lifecycle calls, by identifier */
+  readonly persons = new Map<string, FakePerson>();
+  /** Groups built up from group and identifyGroup calls, by group id */
+  readonly groups = new Map<string, FakeGroup>();
+  /** Members of manual segments, by segment id */
+  readonly segments = new Map<string, string[]>();
+  /** Events tracked with trackAnonymous and not aliased yet, by anonymous id */
+  readonly anonymousEvents = new Map<string, FakeEvent[]>();
+  private scripts: ActiveScript[] = [];
+  private readonly answered = new Map<string, Answer>();
+  private readonly timers = new Set<ReturnType<typeof setTimeout>>();
+  private server: http.Server | null = null;
+  private deliveries = 0;
+  private readonly invalidTokens = new Set<string>();
+
+  constructor(private readonly options: FakeGatewayOptions = {}) {}
+
+  /**
+   * Base URL to use as `cdpEndpoint` or in `cdpFallbackEndpoints`. Only available once started.
+   */
+  get url(): string {
+    if (!this.server) {
+      throw new Error("FakeGateway is not running");
+    }
+    const { address, port } = this.server.address() as AddressInfo;
+    return `http://${address}:${port}`;
+  }
+
+  async start(): Promise<string> {
+    if (this.server) {
+      return this.url;
+    }
+    const server = http.createServer((request, response) => this.handle(request, response));
+    await new Promise<void>((resolve, reject) => {
+      server.once("error", reject);
+      server.listen(this.options.port ?? 0, this.options.host ?? "127.0.0.1", () => resolve());
+    });
+    this.server = server;
+    return this.url;
+  }
+
+  async stop(): Promise<void> {
+    this.timers.forEach((timer) => clearTimeout(timer));
+    this.timers.clear();
+    const server = this.server;
+    if (!server) {
+      return;
+    }
+    this.server = null;
+    await new Promise<void>((resolve) => {
+      server.close(() => resolve());
+      server.closeAllConnections?.();
+    });
+  }
+
+  /**
+   * Adds scripted behaviour for a route, or for every route with "*"
+   */
+  script(route: FakeGatewayRoute | "*", script: FakeGatewayScript): this {
+    this.scripts.push({ ...script, route, remaining: script.times ?? Infinity });
+    return this;
+  }
+
+  /**
+   * Makes a route (default: every route) unreachable. Without `times` until `clearScripts()`.
+   */
+  outage(route: FakeGatewayRoute | "*" = "*", times?: number): this {
+    return this.script(route, { outage: true, times });
+  }
+
+  /**
+   * Marks a push token as rejected by the push provider: sendPush then reports the devices
+   * registered with it in `invalid_devices`
+   */
+  invalidateToken(token: string): this {
+    this.invalidTokens.add(token);
+    return this;
+  }
+
+  clearScripts(): void {
+    this.scripts = [];
+  }
+
+  /**
+   * Requests received on one route
+   */
+  requestsTo(route: FakeGatewayRoute): ReceivedRequest[] {
+    return this.received.filter((request) => request.route === route);
+  }
+
+  /**
+   * Forgets received requests, stored people, idempotency keys, invalidated tokens and scripts
+   */
+  reset(): void {
+    this.received.length = 0;
+    this.persons.clear();
+    this.anonymousEvents.clear();
+    this.groups.clear();
+    this.segments.clear();
+    this.answered.clear();
+    this.invalidTokens.clear();
+    this.clearScripts();
+    this.deliveries = 0;
+  }
+
+  private handle(request: http.IncomingMessage, response: http.ServerResponse): void {
+    const chunks: Buffer[] = [];
+    request.on("data", (chunk: Buffer) => chunks.push(chunk));
+    request.on("end", () => {
+      const [rawPath, query = ""] = (request.url || "/").split("?");
+      const path = rawPath.replace(/\/+$/, "");
+      const match = ROUTES[path];
+      if (!match || match.method !== request.method) {
+        this.send(response, { status: 404, body: { message: `Cannot ${request.method} ${path}` } });
+        return;
+      }
+
+      const raw = Buffer.concat(chunks).toString("utf8");
+      let body: any;
+      try {
+        body = raw ? JSON.parse(raw) : undefined;
+      } catch {
+        body = raw;
+      }
+      if (request.method === "GET" && query) {
+        body = Object.fromEntries(new URLSearchParams(query));
+      }
+      const idempotencyKey = request.headers["idempotency-key"] as string | undefined;
+      const entry: ReceivedRequest = {
+        route: match.route,
+        method: request.method!,
+        path,
+        headers: request.headers,
+        body,
+        idempotencyKey,
+        replayed: false,
+        receivedAt: Date.now(),
+      };
+      this.received.push(entry);
+
+      const script = this.takeScript(match.route);
+      const respond = () => {
+        if (script?.outage) {
+          request.socket.destroy();
+          return;
+        }
+        const answer =
+          script?.status !== undefined
+            ? { status: script.status, body: script.body ?? {}, headers: script.headers }
+            : this.answer(entry, raw);
+        entry.status = answer.status;
+        this.send(response, answer);
+      };
+
+      if (script?.latencyMs) {
+        const timer = setTimeout(() => {
+          this.timers.delete(timer);
+          respond();
+        }, script.latencyMs);
+        this.timers.add(timer);
+      } else {
+        respond();
+      }
+    });
+  }
+
+  private takeScript(route: FakeGatewayRoute): ActiveScript | undefined {
+    const script = this.scripts.find(
+      (candidate) => (candidate.route === "*" || candidate.route === route) && candidate.remaining > 0
+    );
+    if (script) {
+      script.remaining--;
+    }
+    return script;
+  }
+
+  private answer(entry: ReceivedRequest, raw: string): Answer {
+    if (this.options.apiKey !== undefined && entry.headers.authorization !== this.options.apiKey) {
+      return { status: 401, body: { message: "Invalid API key" } };
+    }
+    if (raw && typeof entry.body === "string") {
+      return { status: 400, body: { message: "Request body must be valid JSON" } };
+    }
+
+    const dedupeKey = entry.idempotencyKey && `${entry.route}:${entry.idempotencyKey}`;
+    if (dedupeKey && this.answered.has(dedupeKey)) {
+      entry.replayed = true;
+      return this.answered.get(dedupeKey)!;
+    }
+
+    let answer: Answer;
+    try {
+      answer = { status: 200, body: this.apply(entry.route, entry.body || {}, entry.receivedAt) };
+    } catch (error) {
+      if (error instanceof RequestValidationError) {
+        return { status: 400, body: { message: error.message } };
+      }
+      throw error;
+    }
+    if (dedupeKey) {
+      this.answered.set(dedupeKey, answer);
+    }
+    return answer;
+  }
+
+  /**
+   * Validates a request the way the real gateway does and stores its data. Returns the response body.
+   */
+  private apply(route: FakeGatewayRoute, body: any, receivedAt: number): unknown {
+    switch (route) {
+      case "ping":
+        return { status: "ok" };
+      case "identify":
+        requireString(body.identifier, "identifier");
+        requireObject(body.properties, "properties");
+        Object.assign(this.person(body.identifier).attributes, body.properties);
+        return { success: true };
+      case "track":
+        requireString(body.identifier, "identifier");
+        requireString(body.eventName, "eventName");
+        requireObject(body.properties, "properties");
+        this.person(body.identifier).events.push({
+          eventName: body.eventName,
+          properties: body.properties || {},
+          receivedAt,
+        });
+        return { success: true };
+      case "trackAnonymous": {
+        requireString(body.anonymousId, "anonymousId");
+        requireString(body.eventName, "eventName");
+        requireObject(body.properties, "properties");
+        const events = this.anonymousEvents.get(body.anonymousId) || [];
+        events.push({ eventName: body.eventName, properties: body.properties || {}, receivedAt });
+        this.anonymousEvents.set(body.anonymousId, events);
+        return { success: true };
+      }
+      case "alias": {
+        requireString(body.anonymousId, "anonymousId");
+        requireString(body.identifier, "identifier");
+        const person = this.person(body.identifier);
+        const events = this.anonymousEvents.get(body.anonymousId) || [];
+        person.events = [...events, ...person.events].sort((a, b) => a.receivedAt - b.receivedAt);
+        this.anonymousEvents.delete(body.anonymousId);
+        return { success: true };
+      }
+      case "group":
+      case "identifyGroup": {
+        if (route === "group") requireString(body.identifier, "identifier");
+        requireString(body.groupId, "groupId");
+        requireObject(body.traits, "traits");
+        let group = this.groups.get(body.groupId);
+        if (!group) {
+          group = { groupId: body.groupId, traits: {}, members: [] };
+          this.groups.set(body.groupId, group);
+        }
+        Object.assign(group.traits, body.traits);
+        if (route === "group" && !group.members.includes(body.identifier)) {
+          this.person(body.identifier);
+          group.members.push(body.identifier);
+        }
+        return { success: true };
+      }
+      case "addToSegment":
+      case "removeFromSegment": {
+        requireString(body.segmentId, "segmentId");
+        if (!Array.isArray(body.identifiers) || body.identifiers.length === 0) {
+          throw new RequestValidationError("identifiers must be a non-empty array");
+        }
+        body.identifiers.forEach((identifier: unknown, index: number) => requireString(identifier, `identifiers.${index}`));
+        const members = new Set(this.segments.get(body.segmentId));
+        body.identifiers.forEach((identifier: string) =>
+          route === "addToSegment" ? members.add(identifier) : members.delete(identifier)
+        );
+        this.segments.set(body.segmentId, Array.from(members));
+        return { success: true, processed: body.identifiers.length };
+      }
+      case "getSubscriptionPreferences": {
+        requireString(body.identifier, "identifier");
+        const person = this.persons.get(body.identifier);
+        return { unsubscribed: Boolean(person?.unsubscribed), topics: { ...person?.topics } };
+      }
+      case "updateSubscriptionPreferences": {
+        requireString(body.identifier, "identifier");
+        requireObject(body.topics, "topics");
+        const person = this.person(body.identifier);
+        person.topics = { ...person.topics, ...body.topics };
+        return { success: true };
+      }
+      case "unsubscribe":
+      case "resubscribe":
+        requireString(body.identifier, "identifier");
+        this.person(body.identifier).unsubscribed = route === "unsubscribe";
+        return { success: true };
+      case "registerDevice": {
+        requireString(body.identifier, "identifier");
+        requireString(body.deviceId, "deviceId");
+        if (!["android", "ios", "web"].includes(body.platform)) {
+          throw new RequestValidationError("platform must be one of: android, ios, web");
+        }
+        const { identifier, ...device } = body;
+        this.person(identifier).devices[device.deviceId] = device;
+        return { success: true };
+      }
+      case "unregisterDevice":
+        requireString(body.identifier, "identifier");
+        requireString(body.deviceId, "deviceId");
+        delete this.person(body.identifier).devices[body.deviceId];
+        return { success: true };
+      case "updateDeviceToken": {
+        requireString(body.identifier, "identifier");
+        requireString(body.deviceId, "deviceId");
+        if (body.fcmToken === undefined && body.apnToken === undefined) {
+          throw new RequestValidationError("fcmToken or apnToken is required");
+        }
+        const { identifier, ...device } = body;
+        const person = this.person(identifier);
+        person.devices[device.deviceId] = { ...person.devices[device.deviceId], ...device };
+        return { success: true };
+      }
+      case "suppress":
+      case "unsuppress":
+        requireString(body.identifier, "identifier");
+        this.person(body.identifier).suppressed = route === "suppress";
+        return { success: true };
+      case "mergePersons": {
+        requireString(body.primary, "primary");
+        requireString(body.secondary, "secondary");
+        if (body.primary === body.secondary) {
+          throw new RequestValidationError("primary and secondary must be different people");
+        }
+        const primary = this.person(body.primary);
+        const secondary = this.persons.get(body.secondary);
+        if (secondary) {
+          // The primary person's attributes win over the secondary's
+          primary.attributes = { ...secondary.attributes, ...primary.attributes };
+          primary.events = [...secondary.events, ...primary.events].sort((a, b) => a.receivedAt - b.receivedAt);
+          primary.devices = { ...secondary.devices, ...primary.devices };
+          this.persons.delete(body.secondary);
+        }
+        return { success: true };
+      }
+      case "unsetAttributes": {
+        requireString(body.identifier, "identifier");
+        if (!Array.isArray(body.keys) || body.keys.length === 0) {
+          throw new RequestValidationError("keys must be a non-empty array");
+        }
+        const person = this.person(body.identifier);
+        body.keys.forEach((key: string) => delete person.attributes[key]);
+        return { success: true };
+      }
+      case "batch": {
+        if (!Array.isArray(body.batch) || body.batch.length === 0) {
+          throw new RequestValidationError("batch must be a non-empty array");
+        }
+        // Validate everything before storing anything, so a bad item rejects the whole batch
+        body.batch.forEach((item: any, index: number) => {
+          if (item?.type !== "identify" && item?.type !== "track") {
+            throw new RequestValidationError(`batch.${index}.type must be identify or track`);
+          }
+          requireString(item.identifier, `batch.${index}.identifier`);
+          if (item.type === "track") requireString(item.eventName, `batch.${index}.eventName`);
+        });
+        body.batch.forEach((item: any) => this.apply(item.type, item, receivedAt));
+        return { success: true, processed: body.batch.length };
+      }
+      case "sendEmail":
+        requireString(body.to, "to");
+        requireIdentifiers(body.identifiers, ["id", "email"]);
+        if (body.transactional_message_id === undefined) {
+          requireString(body.body, "body");
+          requireString(body.subject, "subject");
+          requireString(body.from, "from");
+        }
+        return this.delivery();
+      case "sendSms":
+        requireIdentifiers(body.identifiers, ["id", "email", "cdp_id"]);
+        if (body.transactional_message_id === undefined) {
+          requireString(body.body, "body");
+        }
+        return this.delivery();
+      case "sendPush":
+        requireIdentifiers(body.identifiers, ["id", "email", "cdp_id"]);
+        if (body.transactional_message_id === undefined || body.transactional_message_id === "") {
+          throw new RequestValidationError("transactional_message_id is required");
+        }
+        return { ...this.delivery(), ...this.invalidDevices(body.identifiers.id) };
+    }
+  }
+
+  private person(identifier: string): FakePerson {
+    let person = this.persons.get(identifier);
+    if (!person) {
+      person = { identifier, attributes: {}, events: [], devices: {} };
+      this.persons.set(identifier, person);
+    }
+    return person;
+  }
+
+  /**
+   * Devices of a person registered with an invalidated token, as sendPush reports them
+   */
+  private invalidDevices(identifier: string | undefined): Record<string, any> {
+    const devices = Object.values(this.persons.get(identifier ?? "")?.devices || {});
+    const invalid = devices.flatMap((device) =>
+      [device.fcmToken, device.apnToken]
+        .filter((token) => this.invalidTokens.has(token))
+        .map((token) => ({ device_id: device.deviceId, token, reason: "UNREGISTERED" }))
+    );
+    return invalid.length > 0 ? { invalid_devices: invalid } : {};
+  }
+
+  private delivery(): Record<string, any> {
+    this.deliveries++;
+    return { delivery_id: `fake-delivery-${this.deliveries}`, queued_at: Math.floor(Date.now() / 1000) };
+  }
+
+  private send(response: http.ServerResponse, answer: Answer): void {
+    response.writeHead(answer.status, { "Content-Type": "application/json", ...answer.headers });
+    response.end(JSON.stringify(answer.body));
+  }
+}
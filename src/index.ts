@@ -1,11 +1,94 @@
-export { CDPClient } from './client';
+export { CDPClient, CDPResultClient } from './client';
+export { SchemaViolation } from './tracking_plan';
+export { PAGE_VIEW_EVENT, SCREEN_VIEW_EVENT } from './standard_events';
+export {
+    FakeGateway,
+    FakeGatewayOptions,
+    FakeGatewayRoute,
+    FakeGatewayScript,
+    FakeEvent,
+    FakeGroup,
+    FakePerson,
+    ReceivedRequest
+} from './fake_gateway';
+export { CDPTestClient, CDPTestClientOptions, RecordedCall, CDPTestResponses, cdpMatchers, CDPMatchers } from './testing';
+export { Middleware, CallEnvelope, EnvelopeFor, MiddlewareOperation } from './middleware';
+export {
+    Destination,
+    DestinationCall,
+    DestinationContext,
+    DestinationOperation,
+    CustomerIoDestination
+} from './destinations';
+export {
+    WebhookDestination,
+    WebhookDestinationConfig,
+    WebhookEnvelope,
+    VerifyWebhookOptions,
+    signWebhookPayload,
+    verifyWebhookSignature,
+    WEBHOOK_SIGNATURE_HEADER,
+    WEBHOOK_TIMESTAMP_HEADER
+} from './webhook_destination';
+export {
+    CDPError,
+    CDPValidationError,
+    CDPAuthError,
+    CDPRateLimitError,
+    CDPNetworkError,
+    CDPServerError,
+    CDPCircuitOpenError,
+    CDPTrackingPlanError,
+    CDPErrorCode,
+    classifyError,
+    ErrorClassification
+} from './errors';
 export { 
     CDPConfig, 
+    CallOptions,
+    BatchConfig,
+    OfflineQueueConfig,
+    OfflineQueueStats,
+    RetryConfig,
+    RetryPolicy,
+    CDPOperation,
+    CDPResult,
+    DryRunReport,
+    DeliveryReport,
+    DestinationOutcome,
+    DivergenceStats,
+    EventMap,
+    EventName,
+    TraitMap,
+    PageProperties,
+    TopicId,
+    TopicPreferences,
+    SubscriptionPreferences,
+    SubscriptionPreferencesUpdate,
+    SegmentMembershipOptions,
+    SegmentMembershipReport,
+    SegmentChunkResult,
+    ScreenProperties,
+    PiiConfig,
+    PiiRule,
+    PiiAction,
+    TrackingPlan,
+    TrackingPlanMode,
+    JSONSchema,
+    JSONSchemaType,
+    CircuitBreakerConfig,
+    CircuitState,
+    GatewayStatus,
     SendEmailRequestOptions, 
     SendEmailRequestWithTemplate, 
     SendEmailRequestWithoutTemplate,
     SendEmailRequest,
     SendPushRequest,
     SendSmsRequest,
+    DeviceRegistrationParameters,
+    DeviceTokenUpdate,
+    InvalidPushDevice,
+    SendPushResponse,
+    UnregisterInvalidDevicesResult,
     Identifiers
 } from './types';
\ No newline at end of file
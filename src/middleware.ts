@@ -0,0 +1,211 @@
+import {
+  CDPResult,
+  DeviceRegistrationParameters,
+  DeviceTokenUpdate,
+  Logger,
+  SendEmailRequest,
+  SendPushRequest,
+  SendSmsRequest,
+  TopicPreferences,
+} from "./types";
+import { CDPError } from "./errors";
+
+/**
+ * A call as seen by middleware. `identifier` is the person the call is about; for the send
+ * APIs it is derived from the request's `identifiers` and rewriting it has no effect -
+ * rewrite `payload.identifiers` instead.
+ */
+export type CallEnvelope =
+  | {
+    operation: "identify";
+    identifier: string;
+    payload: { properties: Record<string, any> };
+  }
+  | {
+    operation: "track";
+    identifier: string;
+    payload: { eventName: string; properties: Record<string, any> };
+  }
+  | {
+    /** `identifier` is the anonymous id, there is no person yet */
+    operation: "trackAnonymous";
+    identifier: string;
+    payload: { eventName: string; properties: Record<string, any> };
+  }
+  | {
+    /** `identifier` is the person the anonymous history is merged into */
+    operation: "alias";
+    identifier: string;
+    payload: { anonymousId: string };
+  }
+  | {
+    /** `identifier` is the person joining the group */
+    operation: "group";
+    identifier: string;
+    payload: { groupId: string; traits: Record<string, any> };
+  }
+  | {
+    /** A group is not a person: there is no `identifier` */
+    operation: "identifyGroup";
+    identifier?: undefined;
+    payload: { groupId: string; traits: Record<string, any> };
+  }
+  | {
+    /** Segment calls are about many people: there is no `identifier` */
+    operation: "addToSegment";
+    identifier?: undefined;
+    payload: { segmentId: string; identifiers: string[] };
+  }
+  | {
+    operation: "removeFromSegment";
+    identifier?: undefined;
+    payload: { segmentId: string; identifiers: string[] };
+  }
+  | {
+    operation: "getSubscriptionPreferences";
+    identifier: string;
+    payload: {};
+  }
+  | {
+    operation: "updateSubscriptionPreferences";
+    identifier: string;
+    payload: { topics: TopicPreferences };
+  }
+  | {
+    operation: "unsubscribe";
+    identifier: string;
+    payload: {};
+  }
+  | {
+    operation: "resubscribe";
+    identifier: string;
+    payload: {};
+  }
+  | {
+    operation: "registerDevice";
+    identifier: string;
+    payload: DeviceRegistrationParameters;
+  }
+  | {
+    operation: "suppress";
+    identifier: string;
+    payload: {};
+  }
+  | {
+    operation: "unsuppress";
+    identifier: string;
+    payload: {};
+  }
+  | {
+    /** `identifier` is the primary person, the one that remains */
+    operation: "mergePersons";
+    identifier: string;
+    payload: { secondary: string };
+  }
+  | {
+    operation: "unsetAttributes";
+    identifier: string;
+    payload: { keys: string[] };
+  }
+  | {
+    operation: "unregisterDevice";
+    identifier: string;
+    payload: { deviceId: string };
+  }
+  | {
+    operation: "updateDeviceToken";
+    identifier: string;
+    payload: { deviceId: string } & DeviceTokenUpdate;
+  }
+  | {
+    operation: "sendEmail";
+    identifier?: string;
+    payload: SendEmailRequest;
+  }
+  | {
+    operation: "sendPush";
+    identifier?: string;
+    payload: SendPushRequest;
+  }
+  | {
+    operation: "sendSms";
+    identifier?: string;
+    payload: SendSmsRequest;
+  };
+
+export type MiddlewareOperation = CallEnvelope["operation"];
+
+export type EnvelopeFor<O extends MiddlewareOperation> = Extract<CallEnvelope, { operation: O }>;
+
+/**
+ * Middleware registered with `client.use()`.
+ *
+ * - before: runs in registration order before the call is validated and sent. Return a
+ *   (new) envelope to rewrite the call, `null` to drop it, or nothing to leave it as is.
+ *   Throwing fails the call.
+ * - after: runs in reverse registration order once the call has settled, with the envelope
+ *   that was actually sent. Errors thrown here are logged and never fail the call.
+ */
+export interface Middleware {
+  /** Used in log messages */
+  name?: string;
+  before?(envelope: CallEnvelope): CallEnvelope | null | void | Promise<CallEnvelope | null | void>;
+  after?(envelope: CallEnvelope, outcome: CDPResult<unknown>): void | Promise<void>;
+}
+
+/**
+ * Best-effort person identifier for a send request's `identifiers`
+ */
+export function identifierOf(
+  identifiers: { id?: string | number; email?: string; cdp_id?: string } | undefined
+): string | undefined {
+  const value = identifiers?.id ?? identifiers?.email ?? identifiers?.cdp_id;
+  return value === undefined || value === null ? undefined : String(value);
+}
+
+/**
+ * Runs the before hooks. Resolves to the envelope to send, or null when a middleware dropped the call.
+ */
+export async function runBeforeMiddleware<E extends CallEnvelope>(
+  middlewares: Middleware[],
+  envelope: E
+): Promise<E | null> {
+  let current = envelope;
+  for (const middleware of middlewares) {
+    if (!middleware.before) continue;
+    const next = await middleware.before(current);
+    if (next === null) {
+      return null;
+    }
+    if (!next) continue;
+    if (next.operation !== envelope.operation) {
+      throw new CDPError(
+        `Middleware ${middleware.name || "(anonymous)"} cannot turn ${envelope.operation} into ${next.operation}`,
+        "REQUEST_FAILED",
+        { operation: envelope.operation }
+      );
+    }
+    current = next as E;
+  }
+  return current;
+}
+
+export async function runAfterMiddleware(
+  middlewares: Middleware[],
+  envelope: CallEnvelope,
+  outcome: CDPResult<unknown>,
+  logger: Logger
+): Promise<void> {
+  for (const middleware of middlewares.slice().reverse()) {
+    if (!middleware.after) continue;
+    try {
+      await middleware.after(envelope, outcome);
+    } catch (error: any) {
+      logger.error("[CDP] Middleware after hook error", {
+        middleware: middleware.name,
+        operation: envelope.operation,
+        message: error?.message,
+      });
+    }
+  }
+}
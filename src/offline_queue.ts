@@ -0,0 +1,265 @@
+import { promises as fs } from "fs";
+import * as path from "path";
+import { randomUUID } from "crypto";
+import { isRetryableError } from "./errors";
+import { Logger, OfflineQueueConfig, OfflineQueueStats } from "./types";
+
+export const DEFAULT_OFFLINE_MAX_ENTRIES = 10000;
+export const DEFAULT_OFFLINE_MAX_BYTES = 50 * 1024 * 1024;
+export const DEFAULT_OFFLINE_REPLAY_INTERVAL_MS = 30000;
+export const OFFLINE_QUEUE_FILE_NAME = "opencdp-offline-queue.jsonl";
+
+export interface OfflineEntry {
+  id: string;
+  operation: string;
+  path: string;
+  data: unknown;
+  idempotencyKey?: string;
+  queuedAt: number;
+}
+
+function parseEntry(line: string): OfflineEntry | null {
+  try {
+    const entry = JSON.parse(line);
+    if (
+      !entry ||
+      typeof entry !== "object" ||
+      typeof entry.id !== "string" ||
+      typeof entry.operation !== "string" ||
+      typeof entry.path !== "string"
+    ) {
+      return null;
+    }
+    return entry;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Append-only JSON-lines store for calls that could not reach any gateway.
+ *
+ * Entries are appended as they fail and replayed oldest-first. After a replay the
+ * file is rewritten with whatever is left; entries the gateway rejected for good are
+ * dropped and counted. Unreadable lines (for example a line cut short by a crash
+ * mid-write) are skipped, counted and dropped on the next rewrite.
+ * All file access is serialized, so a single instance is safe to use concurrently.
+ */
+export class OfflineQueue {
+  private readonly filePath: string;
+  private readonly maxEntries: number;
+  private readonly maxBytes: number;
+  private pending = 0;
+  private bytes = 0;
+  private dropped = 0;
+  private corrupted = 0;
+  private replayed = 0;
+  private rejected = 0;
+  private lastReplayAt?: number;
+  private replaying: Promise<number> | null = null;
+  private chain: Promise<unknown>;
+
+  constructor(
+    config: OfflineQueueConfig,
+    private readonly logger: Logger,
+    private readonly debug = false
+  ) {
+    this.filePath = path.join(config.directory, OFFLINE_QUEUE_FILE_NAME);
+    this.maxEntries = Math.max(1, config.maxEntries || DEFAULT_OFFLINE_MAX_ENTRIES);
+    this.maxBytes = Math.max(1, config.maxBytes || DEFAULT_OFFLINE_MAX_BYTES);
+    this.chain = this.load(config.directory);
+  }
+
+  /**
+   * True when there is at least one entry waiting to be replayed
+   */
+  get hasPending(): boolean {
+    return this.pending > 0;
+  }
+
+  /**
+   * Persists a failed call together with its idempotency key, so the replay can be deduplicated. Resolves to false when the entry was dropped because
+   * the queue is full or the file could not be written.
+   */
+  enqueue(
+    operation: string,
+    requestPath: string,
+    data: unknown,
+    idempotencyKey?: string
+  ): Promise<boolean> {
+    return this.serialize(async () => {
+      const entry: OfflineEntry = {
+        id: randomUUID(),
+        operation,
+        path: requestPath,
+        data,
+        idempotencyKey,
+        queuedAt: Date.now(),
+      };
+      const line = JSON.stringify(entry) + "\n";
+      const lineBytes = Buffer.byteLength(line, "utf8");
+
+      if (this.pending + 1 > this.maxEntries || this.bytes + lineBytes > this.maxBytes) {
+        this.dropped++;
+        this.logger.warn(
+          `[CDP] Offline queue is full (${this.pending} entries, ${this.bytes} bytes). Dropping ${operation} call.`
+        );
+        return false;
+      }
+
+      try {
+        await fs.appendFile(this.filePath, line, "utf8");
+      } catch (error) {
+        this.dropped++;
+        this.logger.error("[CDP] Offline queue write error", { message: error?.message });
+        return false;
+      }
+      this.pending++;
+      this.bytes += lineBytes;
+      return true;
+    });
+  }
+
+  /**
+   * Sends queued entries oldest-first until one fails with a retryable error, then rewrites the
+   * file with the rest. Entries rejected with a non-retryable error are dropped, so they cannot
+   * block the ones behind them. Resolves to the number of entries delivered. Concurrent calls
+   * while a replay is running return 0.
+   *
+   * The file lock is only held to read and to rewrite the file, never while sending, so calls
+   * that fail during a long replay can still enqueue.
+   */
+  replay(send: (entry: OfflineEntry) => Promise<void>): Promise<number> {
+    if (this.replaying) {
+      return Promise.resolve(0);
+    }
+    const run = this.runReplay(send).finally(() => {
+      this.replaying = null;
+    });
+    this.replaying = run;
+    return run;
+  }
+
+  private async runReplay(send: (entry: OfflineEntry) => Promise<void>): Promise<number> {
+    const entries = await this.serialize(async () => {
+      const { entries, corrupted } = await this.readEntries();
+      if (corrupted > 0) {
+        await this.rewrite(entries);
+      }
+      return entries;
+    });
+
+    const settled = new Set<string>();
+    let delivered = 0;
+    let rejected = 0;
+    for (const entry of entries) {
+      try {
+        await send(entry);
+        delivered++;
+      } catch (error) {
+        if (isRetryableError(error)) {
+          if (this.debug) {
+            this.logger.debug(
+              `[CDP] Offline queue replay stopped after ${delivered} entr${delivered === 1 ? "y" : "ies"}: ${error?.message}`
+            );
+          }
+          break;
+        }
+        rejected++;
+        this.logger.warn(`[CDP] Offline queue dropped a ${entry.operation} call the gateway rejected: ${error?.message}`);
+      }
+      settled.add(entry.id);
+    }
+
+    return this.serialize(async () => {
+      if (settled.size > 0) {
+        // Re-read: calls may have been enqueued while the entries were being sent
+        const { entries: current } = await this.readEntries();
+        await this.rewrite(current.filter((entry) => !settled.has(entry.id)));
+      }
+      this.replayed += delivered;
+      this.rejected += rejected;
+      this.lastReplayAt = Date.now();
+      return delivered;
+    });
+  }
+
+  /**
+   * Waits for a running replay, so the counts include it
+   */
+  async stats(): Promise<OfflineQueueStats> {
+    await this.replaying?.catch(() => undefined);
+    return this.serialize(async () => ({
+      pending: this.pending,
+      bytes: this.bytes,
+      dropped: this.dropped,
+      corrupted: this.corrupted,
+      replayed: this.replayed,
+      rejected: this.rejected,
+      lastReplayAt: this.lastReplayAt,
+    }));
+  }
+
+  private serialize<T>(task: () => Promise<T>): Promise<T> {
+    const run = this.chain.then(task, task);
+    this.chain = run.catch(() => undefined);
+    return run;
+  }
+
+  private async load(directory: string): Promise<void> {
+    try {
+      await fs.mkdir(directory, { recursive: true });
+      const { entries, corrupted } = await this.readEntries();
+      if (corrupted > 0) {
+        await this.rewrite(entries);
+      }
+    } catch (error) {
+      this.logger.error("[CDP] Offline queue load error", { message: error?.message });
+    }
+  }
+
+  private async readEntries(): Promise<{ entries: OfflineEntry[]; corrupted: number }> {
+    let contents: string;
+    try {
+      contents = await fs.readFile(this.filePath, "utf8");
+    } catch (error) {
+      if (error?.code === "ENOENT") {
+        this.pending = 0;
+        this.bytes = 0;
+        return { entries: [], corrupted: 0 };
+      }
+      throw error;
+    }
+
+    const entries: OfflineEntry[] = [];
+    let corrupted = 0;
+    for (const line of contents.split("\n")) {
+      if (line.trim() === "") {
+        continue;
+      }
+      const entry = parseEntry(line);
+      if (entry) {
+        entries.push(entry);
+      } else {
+        corrupted++;
+      }
+    }
+
+    if (corrupted > 0) {
+      this.corrupted += corrupted;
+      this.logger.warn(`[CDP] Offline queue skipped ${corrupted} unreadable entr${corrupted === 1 ? "y" : "ies"}`);
+    }
+    this.pending = entries.length;
+    this.bytes = Buffer.byteLength(contents, "utf8");
+    return { entries, corrupted };
+  }
+
+  private async rewrite(entries: OfflineEntry[]): Promise<void> {
+    const contents = entries.map((entry) => JSON.stringify(entry) + "\n").join("");
+    const tempPath = `${this.filePath}.tmp`;
+    await fs.writeFile(tempPath, contents, "utf8");
+    await fs.rename(tempPath, this.filePath);
+    this.pending = entries.length;
+    this.bytes = Buffer.byteLength(contents, "utf8");
+  }
+}
@@ -0,0 +1,122 @@
+import { createHash } from "crypto";
+import { Logger, PiiAction, PiiConfig, PiiRule } from "./types";
+
+export const DEFAULT_PII_MASK = "[REDACTED]";
+
+/**
+ * Applies a PII policy to outgoing properties and to log output.
+ *
+ * - Rules with a `path` match properties by their dot-separated path (`*` matches any single
+ *   key or array index), or by a RegExp tested against that path. The whole value is dropped,
+ *   masked or hashed.
+ * - Rules with a `pattern` rewrite the matching parts of string values (and log messages).
+ */
+export class PiiRedactor {
+  private readonly pathRules: PiiRule[];
+  private readonly patternRules: PiiRule[];
+  private readonly mask: string;
+  private readonly salt: string;
+
+  constructor(config: PiiConfig) {
+    const rules = config.rules || [];
+    this.pathRules = rules.filter((rule) => rule.path !== undefined);
+    this.patternRules = rules.filter((rule) => rule.pattern !== undefined);
+    this.mask = config.mask ?? DEFAULT_PII_MASK;
+    this.salt = config.hashSalt ?? "";
+  }
+
+  /**
+   * Returns a redacted copy of the given properties. The input is never modified.
+   */
+  redact<T extends Record<string, any>>(properties: T): T {
+    return this.redactValue(properties, []) as T;
+  }
+
+  /**
+   * Applies the pattern rules to a piece of free text, e.g. a log message
+   */
+  redactText(text: string): string {
+    let result = text;
+    for (const rule of this.patternRules) {
+      const pattern = rule.pattern!;
+      const global = new RegExp(pattern.source, pattern.flags.includes("g") ? pattern.flags : pattern.flags + "g");
+      result = result.replace(global, (match) => this.apply(rule.action, match) ?? "");
+    }
+    return result;
+  }
+
+  hash(value: unknown): string {
+    const text = typeof value === "string" ? value : JSON.stringify(value);
+    return createHash("sha256").update(this.salt + text).digest("hex");
+  }
+
+  private redactValue(value: any, path: string[]): any {
+    if (typeof value === "string") {
+      return this.redactText(value);
+    }
+    if (value instanceof Error) {
+      return { name: value.name, message: this.redactText(value.message) };
+    }
+    if (Array.isArray(value)) {
+      const result: any[] = [];
+      value.forEach((item, index) => {
+        const itemPath = path.concat(String(index));
+        const rule = this.pathRuleFor(itemPath);
+        if (rule?.action === "drop") return;
+        result.push(rule ? this.apply(rule.action, item) : this.redactValue(item, itemPath));
+      });
+      return result;
+    }
+    if (value === null || typeof value !== "object" || value instanceof Date) {
+      return value;
+    }
+
+    const result: Record<string, any> = {};
+    for (const [key, item] of Object.entries(value)) {
+      const itemPath = path.concat(key);
+      const rule = this.pathRuleFor(itemPath);
+      if (rule?.action === "drop") continue;
+      result[key] = rule ? this.apply(rule.action, item) : this.redactValue(item, itemPath);
+    }
+    return result;
+  }
+
+  private pathRuleFor(path: string[]): PiiRule | undefined {
+    const joined = path.join(".");
+    return this.pathRules.find((rule) => {
+      if (rule.path instanceof RegExp) {
+        return new RegExp(rule.path.source, rule.path.flags.replace("g", "")).test(joined);
+      }
+      const segments = String(rule.path).split(".");
+      return (
+        segments.length === path.length &&
+        segments.every((segment, index) => segment === "*" || segment === path[index])
+      );
+    });
+  }
+
+  private apply(action: PiiAction, value: unknown): string | undefined {
+    switch (action) {
+      case "drop":
+        return undefined;
+      case "hash":
+        return value === null || value === undefined ? (value as undefined) : this.hash(value);
+      default:
+        return this.mask;
+    }
+  }
+}
+
+/**
+ * Wraps a logger so every message and context object is redacted before it is written
+ */
+export function createRedactingLogger(logger: Logger, redactor: PiiRedactor): Logger {
+  return {
+    debug: (message) => logger.debug(redactor.redactText(message)),
+    warn: (message) => logger.warn(redactor.redactText(message)),
+    error: (message, context) =>
+      context === undefined
+        ? logger.error(redactor.redactText(message))
+        : logger.error(redactor.redactText(message), redactor.redact(context)),
+  };
+}
@@ -0,0 +1,84 @@
+import { CDPOperation, RetryConfig, RetryPolicy } from "./types";
+
+export const DEFAULT_RETRY_POLICY: Required<RetryPolicy> = {
+  maxAttempts: 1,
+  baseDelayMs: 200,
+  maxDelayMs: 10000,
+  jitter: true,
+  respectRetryAfter: true,
+};
+
+/**
+ * Merges the defaults, the top-level retry config and the override for the given operation
+ */
+export function resolveRetryPolicy(
+  config: RetryConfig | undefined,
+  operation: CDPOperation
+): Required<RetryPolicy> {
+  const base: RetryPolicy = config || {};
+  const override: RetryPolicy = config?.operations?.[operation] || {};
+  const pick = <K extends keyof RetryPolicy>(key: K): NonNullable<RetryPolicy[K]> =>
+    override[key] ?? base[key] ?? DEFAULT_RETRY_POLICY[key];
+  return {
+    maxAttempts: Math.max(1, Math.floor(pick("maxAttempts"))),
+    baseDelayMs: pick("baseDelayMs"),
+    maxDelayMs: pick("maxDelayMs"),
+    jitter: pick("jitter"),
+    respectRetryAfter: pick("respectRetryAfter"),
+  };
+}
+
+/**
+ * Exponential backoff for the given retry (1 = first retry), capped at maxDelayMs.
+ * With jitter enabled this is "full jitter": a random delay between 0 and the capped backoff.
+ */
+export function computeBackoffDelay(
+  retry: number,
+  policy: Required<RetryPolicy>,
+  random: () => number = Math.random
+): number {
+  const exponential = policy.baseDelayMs * Math.pow(2, Math.max(0, retry - 1));
+  const capped = Math.min(policy.maxDelayMs, exponential);
+  return policy.jitter ? Math.floor(random() * capped) : capped;
+}
+
+/**
+ * Parses a Retry-After header (delay in seconds or an HTTP date) into milliseconds
+ */
+export function parseRetryAfter(value: unknown, now: number = Date.now()): number | undefined {
+  if (value === undefined || value === null || value === "") {
+    return undefined;
+  }
+  const text = String(value).trim();
+  if (/^\d+(\.\d+)?$/.test(text)) {
+    return Math.round(parseFloat(text) * 1000);
+  }
+  const date = Date.parse(text);
+  if (isNaN(date)) {
+    return undefined;
+  }
+  return Math.max(0, date - now);
+}
+
+/**
+ * Returns how long to wait before the next attempt, or undefined when the gateway asked
+ * (through Retry-After) for a longer pause than the policy allows.
+ */
+export function retryDelay(
+  retry: number,
+  policy: Required<RetryPolicy>,
+  error: any
+): number | undefined {
+  if (policy.respectRetryAfter) {
+    const headers = error?.response?.headers;
+    const retryAfter = parseRetryAfter(headers?.["retry-after"] ?? headers?.["Retry-After"]);
+    if (retryAfter !== undefined) {
+      return retryAfter <= policy.maxDelayMs ? retryAfter : undefined;
+    }
+  }
+  return computeBackoffDelay(retry, policy);
+}
+
+export function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
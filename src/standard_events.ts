@@ -0,0 +1,54 @@
+import { CDPValidationError } from "./errors";
+import { PageProperties, ScreenProperties } from "./types";
+
+/** Event name `page()` calls are tracked under */
+export const PAGE_VIEW_EVENT = "page_view";
+/** Event name `screen()` calls are tracked under */
+export const SCREEN_VIEW_EVENT = "screen_view";
+
+const STRING_PROPERTIES: Record<string, string[]> = {
+  [PAGE_VIEW_EVENT]: ["url", "path", "referrer", "title"],
+  [SCREEN_VIEW_EVENT]: ["appVersion", "screenClass"],
+};
+
+/**
+ * Event properties of a page view: the standard properties plus `name`
+ */
+export function pageViewProperties(name: string, properties?: PageProperties): Record<string, any> {
+  return { ...properties, name };
+}
+
+/**
+ * Event properties of a screen view: the standard properties plus `name`
+ */
+export function screenViewProperties(name: string, properties?: ScreenProperties): Record<string, any> {
+  return { ...properties, name };
+}
+
+/**
+ * Checks the standard properties of page and screen views, whether they come from `page()`,
+ * `screen()` or a plain `track()` with the same event name. Other events are not checked.
+ */
+export function validateStandardProperties(eventName: string, properties: Record<string, any>): void {
+  const standard = STRING_PROPERTIES[eventName];
+  if (!standard) {
+    return;
+  }
+  const kind = eventName === PAGE_VIEW_EVENT ? "Page" : "Screen";
+  if (typeof properties.name !== "string" || properties.name.trim() === "") {
+    throw new CDPValidationError(`${kind} name cannot be empty`);
+  }
+  for (const key of standard) {
+    if (properties[key] !== undefined && typeof properties[key] !== "string") {
+      throw new CDPValidationError(`${kind} property ${key} must be a string`);
+    }
+  }
+  if (eventName === PAGE_VIEW_EVENT) {
+    if (properties.url !== undefined && !/^https?:\/\/\S+$/i.test(properties.url)) {
+      throw new CDPValidationError("Page property url must be an absolute http(s) URL");
+    }
+    if (properties.path !== undefined && !properties.path.startsWith("/")) {
+      throw new CDPValidationError("Page property path must start with /");
+    }
+  }
+}
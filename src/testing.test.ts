@@ -0,0 +1,230 @@
+import { beforeEach, describe, expect, it } from '@jest/globals';
+import { CDPTestClient, cdpMatchers, CDPMatchers } from './testing';
+import { CDPError, CDPServerError, CDPValidationError } from './errors';
+import { SendEmailRequest } from './types';
+
+declare module 'expect' {
+    interface Matchers<R> extends CDPMatchers<R> {}
+}
+
+expect.extend(cdpMatchers);
+
+describe('CDPTestClient', () => {
+    let client: CDPTestClient;
+
+    beforeEach(() => {
+        client = new CDPTestClient();
+    });
+
+    it('should record calls instead of sending them', async () => {
+        await client.identify('user-123', { plan: 'pro' });
+        await client.track('user-123', 'purchase', { amount: 10, currency: 'USD' });
+        await client.registerDevice('user-123', { deviceId: 'd1', platform: 'ios', fcmToken: 'token' });
+
+        expect(client.calls.map((call) => call.operation)).toEqual(['identify', 'track', 'registerDevice']);
+        expect(client.callsOf('track')[0]).toMatchObject({
+            identifier: 'user-123',
+            payload: { eventName: 'purchase', properties: { amount: 10, currency: 'USD' } },
+            idempotencyKey: expect.any(String)
+        });
+    });
+
+    it('should return the idempotency key from the send APIs', async () => {
+        const email = await client.sendEmail(new SendEmailRequest({
+            to: 'jane@example.com',
+            identifiers: { id: 'user-123' },
+            transactional_message_id: 'WELCOME'
+        }), { idempotencyKey: 'welcome-user-123' });
+
+        expect(email).toEqual({ idempotencyKey: 'welcome-user-123' });
+        expect(client.callsOf('sendEmail')[0].identifier).toBe('user-123');
+    });
+
+    describe('matchers', () => {
+        it('should match tracked events by partial properties', async () => {
+            await client.track('user-123', 'purchase', { amount: 10, currency: 'USD', items: [{ sku: 'A' }] });
+
+            expect(client).toHaveTracked('user-123', 'purchase');
+            expect(client).toHaveTracked('user-123', 'purchase', { amount: 10 });
+            expect(client).toHaveTracked('user-123', 'purchase', { currency: expect.any(String), items: [{ sku: 'A' }] });
+            expect(client).not.toHaveTracked('user-123', 'purchase', { amount: 11 });
+            expect(client).not.toHaveTracked('user-456', 'purchase');
+            expect(client).not.toHaveTracked('user-123', 'refund');
+        });
+
+        it('should match identify, devices and sends', async () => {
+            await client.identify('user-123', { email: 'jane@example.com', plan: 'pro' });
+            await client.registerDevice('user-123', { deviceId: 'd1', platform: 'android', fcmToken: 'token' });
+            await client.sendEmail(new SendEmailRequest({
+                to: 'jane@example.com',
+                identifiers: { id: 'user-123' },
+                transactional_message_id: 'WELCOME'
+            }));
+            await client.sendPush({ identifiers: { id: 'user-123' }, transactional_message_id: 'PUSH' });
+            await client.sendSms({ identifiers: { id: 'user-123' }, to: '+15551234567', body: 'Hi' });
+
+            expect(client).toHaveIdentified('user-123', { plan: 'pro' });
+            expect(client).toHaveRegisteredDevice('user-123', { platform: 'android' });
+            expect(client).toHaveSentEmail({ to: 'jane@example.com' });
+            expect(client).toHaveSentEmail({ transactional_message_id: 'WELCOME' });
+            expect(client).not.toHaveSentEmail({ to: 'john@example.com' });
+            expect(client).toHaveSentPush({ transactional_message_id: 'PUSH' });
+            expect(client).toHaveSentSms({ to: '+15551234567' });
+        });
+
+        it('should describe the recorded calls when a match fails', async () => {
+            await client.track('user-123', 'purchase', { amount: 10 });
+
+            expect(() => expect(client).toHaveTracked('user-123', 'purchase', { amount: 11 })).toThrow(
+                /expected the client to have tracked "purchase" for user-123 with {"amount":11}\ntrack calls recorded:\n.*"amount":10/
+            );
+        });
+
+        it('should only accept a CDPTestClient', () => {
+            expect(() => expect({}).toHaveTracked('user-123', 'purchase')).toThrow('toHaveTracked must be called on a CDPTestClient');
+        });
+    });
+
+    describe('programmed failures', () => {
+        it('should fail every call to an operation until cleared', async () => {
+            client.failOn('track');
+
+            await expect(client.track('user-123', 'purchase')).resolves.toBeUndefined();
+            const result = await client.results.track('user-123', 'purchase');
+            expect(result).toEqual({ ok: false, error: expect.any(CDPServerError) });
+
+            expect(client).not.toHaveTracked('user-123', 'purchase');
+            expect(client.calls).toHaveLength(2);
+            expect(client.calls[0].error).toBeInstanceOf(CDPError);
+
+            client.clearFailures();
+            await client.track('user-123', 'purchase');
+            expect(client).toHaveTracked('user-123', 'purchase');
+        });
+
+        it('should fail only the next call and honour failOnException', async () => {
+            const strict = new CDPTestClient({ failOnException: true });
+            strict.failNext('sendEmail', new CDPValidationError('Invalid email address format'));
+
+            const request = new SendEmailRequest({
+                to: 'jane@example.com',
+                identifiers: { id: 'user-123' },
+                transactional_message_id: 'WELCOME'
+            });
+            await expect(strict.sendEmail(request)).rejects.toMatchObject({
+                name: 'CDPValidationError',
+                operation: 'sendEmail',
+                idempotencyKey: expect.any(String)
+            });
+            await expect(strict.sendEmail(request)).resolves.toEqual({ idempotencyKey: expect.any(String) });
+        });
+
+        it('should report sendEmail failures like CDPClient', async () => {
+            client.failNext('sendEmail');
+
+            await expect(client.sendEmail(new SendEmailRequest({
+                to: 'jane@example.com',
+                identifiers: { id: 'user-123' },
+                transactional_message_id: 'WELCOME'
+            }))).resolves.toEqual({ ok: false, error: expect.any(CDPServerError) });
+        });
+    });
+
+    describe('programmed responses', () => {
+        it('should report segment changes like CDPClient by default', async () => {
+            const report = await client.addToSegment('beta', ['user-1', 'user-2', 'user-1', 'user-3'], {
+                chunkSize: 2,
+                idempotencyKey: 'beta-1'
+            });
+
+            expect(report).toEqual({
+                operation: 'addToSegment',
+                segmentId: 'beta',
+                total: 3,
+                succeeded: 3,
+                failed: 0,
+                chunks: [
+                    { index: 0, identifiers: ['user-1', 'user-2'], idempotencyKey: 'beta-1:0', ok: true, queued: false },
+                    { index: 1, identifiers: ['user-3'], idempotencyKey: 'beta-1:1', ok: true, queued: false }
+                ]
+            });
+            await expect(client.removeFromSegment('beta', ['user-1'])).resolves.toMatchObject({
+                operation: 'removeFromSegment',
+                succeeded: 1
+            });
+        });
+
+        it('should resolve to the programmed response until cleared', async () => {
+            client.respondTo('removeFromSegment', (call) => ({
+                operation: 'removeFromSegment',
+                segmentId: 'beta',
+                total: 1,
+                succeeded: 0,
+                failed: 1,
+                chunks: [{
+                    index: 0,
+                    identifiers: ['user-1'],
+                    idempotencyKey: `${call.idempotencyKey}:0`,
+                    ok: false,
+                    error: new CDPServerError('Simulated failure', { status: 500 })
+                }]
+            }));
+
+            await expect(client.removeFromSegment('beta', ['user-1'], { idempotencyKey: 'beta-2' })).resolves.toMatchObject({
+                failed: 1,
+                chunks: [{ idempotencyKey: 'beta-2:0', ok: false }]
+            });
+
+            client.clearResponses();
+            await expect(client.removeFromSegment('beta', ['user-1'])).resolves.toMatchObject({ failed: 0 });
+        });
+
+        it('should return no subscriptions by default and programmed preferences until cleared', async () => {
+            await expect(client.getSubscriptionPreferences('user-123')).resolves.toEqual({ unsubscribed: false, topics: {} });
+
+            client.respondTo('getSubscriptionPreferences', { unsubscribed: true, topics: { topic_1: true } });
+            await expect(client.getSubscriptionPreferences('user-123')).resolves.toEqual({
+                unsubscribed: true,
+                topics: { topic_1: true }
+            });
+
+            client.reset();
+            await expect(client.getSubscriptionPreferences('user-123')).resolves.toEqual({ unsubscribed: false, topics: {} });
+        });
+
+        it('should fail instead of responding when a failure is programmed', async () => {
+            client.respondTo('addToSegment', {
+                operation: 'addToSegment', segmentId: 'beta', total: 0, succeeded: 0, failed: 0, chunks: []
+            });
+            client.failNext('addToSegment');
+
+            await expect(client.results.addToSegment('beta', ['user-1'])).resolves.toEqual({
+                ok: false,
+                error: expect.any(CDPServerError)
+            });
+        });
+    });
+
+    it('should run middleware like CDPClient', async () => {
+        client.use({
+            before: (call) => call.operation === 'track' && call.payload.eventName === 'debug' ? null : undefined
+        });
+
+        await client.track('user-123', 'debug');
+        await client.track('user-123', 'purchase');
+
+        expect(client).not.toHaveTracked('user-123', 'debug');
+        expect(client).toHaveTracked('user-123', 'purchase');
+    });
+
+    it('should forget everything on reset', async () => {
+        client.failOn('identify');
+        await client.identify('user-123');
+
+        client.reset();
+        await client.identify('user-123');
+
+        expect(client.calls).toHaveLength(1);
+        expect(client).toHaveIdentified('user-123');
+    });
+});
@@ -0,0 +1,686 @@
+import { randomUUID } from "crypto";
+import type { CDPClient, CDPResultClient } from "./client";
+import { CDPError, CDPServerError, toCDPError } from "./errors";
+import {
+  CallEnvelope,
+  EnvelopeFor,
+  identifierOf,
+  Middleware,
+  MiddlewareOperation,
+  runAfterMiddleware,
+  runBeforeMiddleware,
+} from "./middleware";
+import {
+  CallOptions,
+  CDPOperation,
+  CDPResult,
+  DeviceRegistrationParameters,
+  DeviceTokenUpdate,
+  DivergenceStats,
+  DryRunReport,
+  EventMap,
+  EventName,
+  GatewayStatus,
+  Logger,
+  OfflineQueueStats,
+  PageProperties,
+  ScreenProperties,
+  SegmentChunkResult,
+  SegmentMembershipOptions,
+  SegmentMembershipReport,
+  SendEmailRequest,
+  SendPushRequest,
+  SendPushResponse,
+  SendSmsRequest,
+  SubscriptionPreferences,
+  SubscriptionPreferencesUpdate,
+  TraitMap,
+  UnregisterInvalidDevicesResult,
+} from "./types";
+import { PAGE_VIEW_EVENT, pageViewProperties, SCREEN_VIEW_EVENT, screenViewProperties } from "./standard_events";
+
+/**
+ * Everything public on CDPClient. `use()` is left out because it returns the client itself.
+ */
+type CDPClientSurface<Events extends object, Traits extends object> = {
+  [K in Exclude<keyof CDPClient<Events, Traits>, "use">]: CDPClient<Events, Traits>[K];
+};
+
+/**
+ * A call recorded by CDPTestClient: the envelope middleware saw (after any rewrite), the
+ * idempotency key and, for programmed failures, the error the call failed with.
+ */
+export type RecordedCall = CallEnvelope & {
+  idempotencyKey: string;
+  error?: CDPError;
+};
+
+export interface CDPTestClientOptions {
+  /**
+   * Same as CDPConfig.failOnException: throw programmed failures instead of resolving to undefined.
+   */
+  failOnException?: boolean;
+  /**
+   * Receives errors thrown by middleware after hooks. Default: console.
+   */
+  logger?: Logger;
+}
+
+interface ProgrammedFailure {
+  error?: Error;
+  remaining: number;
+}
+
+/**
+ * What each operation with a programmable response resolves to
+ */
+export interface CDPTestResponses {
+  addToSegment: SegmentMembershipReport;
+  removeFromSegment: SegmentMembershipReport;
+  getSubscriptionPreferences: SubscriptionPreferences;
+}
+
+/** Same default as CDPClient */
+const DEFAULT_SEGMENT_CHUNK_SIZE = 1000;
+
+/**
+ * Report for a recorded segment membership change where every chunk was accepted, chunked like CDPClient
+ */
+function acceptedSegmentReport(call: RecordedCall, options?: SegmentMembershipOptions): SegmentMembershipReport {
+  const operation = call.operation as SegmentMembershipReport["operation"];
+  const { segmentId, identifiers } = call.payload as { segmentId: string; identifiers: string[] };
+  const unique = Array.from(new Set(identifiers || []));
+  const chunkSize = Math.max(1, Math.floor(options?.chunkSize || DEFAULT_SEGMENT_CHUNK_SIZE));
+  const chunks: SegmentChunkResult[] = [];
+  for (let i = 0; i < unique.length; i += chunkSize) {
+    const index = chunks.length;
+    chunks.push({
+      index,
+      identifiers: unique.slice(i, i + chunkSize),
+      idempotencyKey: `${call.idempotencyKey}:${index}`,
+      ok: true,
+      queued: false,
+    });
+  }
+  return { operation, segmentId, total: unique.length, succeeded: unique.length, failed: 0, chunks };
+}
+
+/**
+ * In-memory stand-in for CDPClient in application tests. Every call is recorded instead of being
+ * sent, middleware registered with `use()` runs as it would on the real client, and failures can
+ * be programmed per operation. Nothing is validated and nothing touches the network.
+ */
+export class CDPTestClient<Events extends object = EventMap, Traits extends object = TraitMap>
+  implements CDPClientSurface<Events, Traits>
+{
+  /** Every call except ping, in call order */
+  readonly calls: RecordedCall[] = [];
+  private readonly failures = new Map<CDPOperation, ProgrammedFailure>();
+  private readonly responses = new Map<keyof CDPTestResponses, (call: RecordedCall) => unknown>();
+  private readonly middlewares: Middleware[] = [];
+  private readonly logger: Logger;
+
+  readonly results: CDPResultClient<Events, Traits> = {
+    ping: () => this.settle("ping", async () => undefined),
+    identify: (identifier, properties, options) =>
+      this.record(
+        { operation: "identify", identifier, payload: { properties: (properties || {}) as Record<string, any> } },
+        options
+      ),
+    track: (identifier, eventName, properties, options) =>
+      this.record(
+        {
+          operation: "track",
+          identifier,
+          payload: { eventName, properties: (properties || {}) as Record<string, any> },
+        },
+        options
+      ),
+    group: (identifier, groupId, traits, options) =>
+      this.record({ operation: "group", identifier, payload: { groupId, traits: traits || {} } }, options),
+    identifyGroup: (groupId, traits, options) =>
+      this.record({ operation: "identifyGroup", payload: { groupId, traits: traits || {} } }, options),
+    addToSegment: (segmentId, identifiers, options) =>
+      this.record<SegmentMembershipReport>(
+        { operation: "addToSegment", payload: { segmentId, identifiers } },
+        options,
+        (call) => acceptedSegmentReport(call, options)
+      ),
+    removeFromSegment: (segmentId, identifiers, options) =>
+      this.record<SegmentMembershipReport>(
+        { operation: "removeFromSegment", payload: { segmentId, identifiers } },
+        options,
+        (call) => acceptedSegmentReport(call, options)
+      ),
+    getSubscriptionPreferences: (identifier, options) =>
+      this.record<SubscriptionPreferences>(
+        { operation: "getSubscriptionPreferences", identifier, payload: {} },
+        options,
+        () => ({ unsubscribed: false, topics: {} })
+      ),
+    updateSubscriptionPreferences: (identifier, update, options) =>
+      this.record({ operation: "updateSubscriptionPreferences", identifier, payload: { topics: update?.topics } }, options),
+    unsubscribe: (identifier, options) => this.record({ operation: "unsubscribe", identifier, payload: {} }, options),
+    resubscribe: (identifier, options) => this.record({ operation: "resubscribe", identifier, payload: {} }, options),
+    page: (identifier, name, properties, options) =>
+      this.record(
+        {
+          operation: "track",
+          identifier,
+          payload: { eventName: PAGE_VIEW_EVENT, properties: pageViewProperties(name, properties) },
+        },
+        options
+      ),
+    screen: (identifier, name, properties, options) =>
+      this.record(
+        {
+          operation: "track",
+          identifier,
+          payload: { eventName: SCREEN_VIEW_EVENT, properties: screenViewProperties(name, properties) },
+        },
+        options
+      ),
+    trackAnonymous: (anonymousId, eventName, properties, options) =>
+      this.record(
+        {
+          operation: "trackAnonymous",
+          identifier: anonymousId,
+          payload: { eventName, properties: (properties || {}) as Record<string, any> },
+        },
+        options
+      ),
+    alias: (anonymousId, identifier, options) =>
+      this.record({ operation: "alias", identifier, payload: { anonymousId } }, options),
+    registerDevice: (identifier, deviceRegistrationParameters, options) =>
+      this.record({ operation: "registerDevice", identifier, payload: deviceRegistrationParameters }, options),
+    suppress: (identifier, options) => this.record({ operation: "suppress", identifier, payload: {} }, options),
+    unsuppress: (identifier, options) => this.record({ operation: "unsuppress", identifier, payload: {} }, options),
+    mergePersons: (primary, secondary, options) =>
+      this.record({ operation: "mergePersons", identifier: primary, payload: { secondary } }, options),
+    unsetAttributes: (identifier, keys, options) =>
+      this.record({ operation: "unsetAttributes", identifier, payload: { keys } }, options),
+    unregisterDevice: (identifier, deviceId, options) =>
+      this.record({ operation: "unregisterDevice", identifier, payload: { deviceId } }, options),
+    updateDeviceToken: (identifier, deviceId, tokens, options) =>
+      this.record({ operation: "updateDeviceToken", identifier, payload: { ...tokens, deviceId } }, options),
+    sendEmail: (request, options) =>
+      this.record(
+        { operation: "sendEmail", identifier: identifierOf(request?.message?.identifiers), payload: request },
+        options,
+        (call) => ({ idempotencyKey: call.idempotencyKey })
+      ),
+    sendPush: (request, options) =>
+      this.record(
+        { operation: "sendPush", identifier: identifierOf(request?.identifiers), payload: request },
+        options,
+        (call) => ({ idempotencyKey: call.idempotencyKey })
+      ),
+    sendSms: (request, options) =>
+      this.record(
+        { operation: "sendSms", identifier: identifierOf(request?.identifiers), payload: request },
+        options,
+        (call) => ({ idempotencyKey: call.idempotencyKey })
+      ),
+  };
+
+  constructor(private readonly options: CDPTestClientOptions = {}) {
+    this.logger = options.logger || {
+      debug: console.debug.bind(console),
+      error: console.error.bind(console),
+      warn: console.warn.bind(console),
+    };
+  }
+
+  /**
+   * Makes calls to the given operation fail. Without `times` every call fails until
+   * `clearFailures()`; the default error is a CDPServerError (500).
+   */
+  failOn(operation: CDPOperation, error?: Error, times = Infinity): this {
+    this.failures.set(operation, { error, remaining: times });
+    return this;
+  }
+
+  /**
+   * Makes only the next call to the given operation fail
+   */
+  failNext(operation: CDPOperation, error?: Error): this {
+    return this.failOn(operation, error, 1);
+  }
+
+  clearFailures(): void {
+    this.failures.clear();
+  }
+
+  /**
+   * Makes calls to the given operation resolve to `response`, or to what it returns for the
+   * recorded call, instead of the default (every identifier accepted, no subscriptions).
+   */
+  respondTo<O extends keyof CDPTestResponses>(
+    operation: O,
+    response: CDPTestResponses[O] | ((call: RecordedCall) => CDPTestResponses[O])
+  ): this {
+    this.responses.set(operation, typeof response === "function" ? response : () => response);
+    return this;
+  }
+
+  clearResponses(): void {
+    this.responses.clear();
+  }
+
+  /**
+   * Forgets every recorded call, programmed failure and programmed response
+   */
+  reset(): void {
+    this.calls.length = 0;
+    this.clearFailures();
+    this.clearResponses();
+  }
+
+  /**
+   * Recorded calls of one operation, typed by operation
+   */
+  callsOf<O extends MiddlewareOperation>(operation: O): Array<EnvelopeFor<O> & RecordedCall> {
+    return this.calls.filter((call) => call.operation === operation) as Array<EnvelopeFor<O> & RecordedCall>;
+  }
+
+  use(middleware: Middleware): this {
+    this.middlewares.push(middleware);
+    return this;
+  }
+
+  async ping(): Promise<void> {
+    await this.validateConnection();
+  }
+
+  async validateConnection(): Promise<void> {
+    this.unwrap(await this.results.ping());
+  }
+
+  async identify(identifier: string, properties?: Partial<Traits>, options?: CallOptions): Promise<void> {
+    this.unwrap(await this.results.identify(identifier, properties, options));
+  }
+
+  async track<E extends EventName<Events>>(
+    identifier: string,
+    eventName: E,
+    properties?: Events[E],
+    options?: CallOptions
+  ): Promise<void> {
+    this.unwrap(await this.results.track(identifier, eventName, properties, options));
+  }
+
+  async group(identifier: string, groupId: string, traits?: Record<string, any>, options?: CallOptions): Promise<void> {
+    this.unwrap(await this.results.group(identifier, groupId, traits, options));
+  }
+
+  async identifyGroup(groupId: string, traits?: Record<string, any>, options?: CallOptions): Promise<void> {
+    this.unwrap(await this.results.identifyGroup(groupId, traits, options));
+  }
+
+  async addToSegment(
+    segmentId: string,
+    identifiers: string[],
+    options?: SegmentMembershipOptions
+  ): Promise<SegmentMembershipReport | void> {
+    return this.unwrap(await this.results.addToSegment(segmentId, identifiers, options));
+  }
+
+  async removeFromSegment(
+    segmentId: string,
+    identifiers: string[],
+    options?: SegmentMembershipOptions
+  ): Promise<SegmentMembershipReport | void> {
+    return this.unwrap(await this.results.removeFromSegment(segmentId, identifiers, options));
+  }
+
+  async getSubscriptionPreferences(
+    identifier: string,
+    options?: CallOptions
+  ): Promise<SubscriptionPreferences | DryRunReport | void> {
+    return this.unwrap(await this.results.getSubscriptionPreferences(identifier, options));
+  }
+
+  async updateSubscriptionPreferences(
+    identifier: string,
+    update: SubscriptionPreferencesUpdate,
+    options?: CallOptions
+  ): Promise<void> {
+    this.unwrap(await this.results.updateSubscriptionPreferences(identifier, update, options));
+  }
+
+  async unsubscribe(identifier: string, options?: CallOptions): Promise<void> {
+    this.unwrap(await this.results.unsubscribe(identifier, options));
+  }
+
+  async resubscribe(identifier: string, options?: CallOptions): Promise<void> {
+    this.unwrap(await this.results.resubscribe(identifier, options));
+  }
+
+  async page(identifier: string, name: string, properties?: PageProperties, options?: CallOptions): Promise<void> {
+    this.unwrap(await this.results.page(identifier, name, properties, options));
+  }
+
+  async screen(identifier: string, name: string, properties?: ScreenProperties, options?: CallOptions): Promise<void> {
+    this.unwrap(await this.results.screen(identifier, name, properties, options));
+  }
+
+  async trackAnonymous<E extends EventName<Events>>(
+    anonymousId: string,
+    eventName: E,
+    properties?: Events[E],
+    options?: CallOptions
+  ): Promise<void> {
+    this.unwrap(await this.results.trackAnonymous(anonymousId, eventName, properties, options));
+  }
+
+  async alias(anonymousId: string, identifier: string, options?: CallOptions): Promise<void> {
+    this.unwrap(await this.results.alias(anonymousId, identifier, options));
+  }
+
+  async registerDevice(
+    identifier: string,
+    deviceRegistrationParameters: DeviceRegistrationParameters,
+    options?: CallOptions
+  ): Promise<void> {
+    this.unwrap(await this.results.registerDevice(identifier, deviceRegistrationParameters, options));
+  }
+
+  async suppress(identifier: string, options?: CallOptions): Promise<void> {
+    this.unwrap(await this.results.suppress(identifier, options));
+  }
+
+  async unsuppress(identifier: string, options?: CallOptions): Promise<void> {
+    this.unwrap(await this.results.unsuppress(identifier, options));
+  }
+
+  async mergePersons(primary: string, secondary: string, options?: CallOptions): Promise<void> {
+    this.unwrap(await this.results.mergePersons(primary, secondary, options));
+  }
+
+  async unsetAttributes(identifier: string, keys: string[], options?: CallOptions): Promise<void> {
+    this.unwrap(await this.results.unsetAttributes(identifier, keys, options));
+  }
+
+  async unregisterDevice(identifier: string, deviceId: string, options?: CallOptions): Promise<void> {
+    this.unwrap(await this.results.unregisterDevice(identifier, deviceId, options));
+  }
+
+  async updateDeviceToken(
+    identifier: string,
+    deviceId: string,
+    tokens: DeviceTokenUpdate,
+    options?: CallOptions
+  ): Promise<void> {
+    this.unwrap(await this.results.updateDeviceToken(identifier, deviceId, tokens, options));
+  }
+
+  async unregisterInvalidDevices(
+    identifier: string,
+    response: SendPushResponse | undefined
+  ): Promise<UnregisterInvalidDevicesResult> {
+    const deviceIds = new Set((response?.invalid_devices || []).map((device) => device.device_id).filter(Boolean));
+    const outcome: UnregisterInvalidDevicesResult = { unregistered: [], failed: [] };
+    for (const deviceId of deviceIds) {
+      const result = await this.results.unregisterDevice(identifier, deviceId);
+      if (result.ok === false) {
+        outcome.failed.push({ deviceId, error: result.error });
+      } else {
+        outcome.unregistered.push(deviceId);
+      }
+    }
+    return outcome;
+  }
+
+  async sendEmail(request: SendEmailRequest, options?: CallOptions): Promise<Record<string, any>> {
+    const result = await this.results.sendEmail(request, options);
+    // Mirrors CDPClient, which reports sendEmail failures as { ok: false, error }
+    if (!result.ok && !this.options.failOnException) {
+      return result;
+    }
+    return this.unwrap(result)!;
+  }
+
+  async sendPush(request: SendPushRequest, options?: CallOptions): Promise<any> {
+    return this.unwrap(await this.results.sendPush(request, options));
+  }
+
+  async sendSms(request: SendSmsRequest, options?: CallOptions): Promise<any> {
+    return this.unwrap(await this.results.sendSms(request, options));
+  }
+
+  getGatewayStatus(): GatewayStatus[] {
+    return [];
+  }
+
+  async flush(): Promise<void> {}
+
+  async getQueueStats(): Promise<OfflineQueueStats | null> {
+    return null;
+  }
+
+  getDualWriteStats(): Record<string, DivergenceStats> {
+    return {};
+  }
+
+  /**
+   * Accepted for compatibility; the test client does not check calls against a tracking plan
+   */
+  loadTrackingPlan(): void {}
+
+  close(): void {}
+
+  private async record<T = undefined>(
+    envelope: CallEnvelope,
+    options: CallOptions | undefined,
+    respond?: (call: RecordedCall) => T
+  ): Promise<CDPResult<T>> {
+    const idempotencyKey = options?.idempotencyKey || randomUUID();
+    let sent: CallEnvelope | null;
+    try {
+      sent = await runBeforeMiddleware(this.middlewares, envelope);
+    } catch (error) {
+      return { ok: false, error: toCDPError(error, { operation: envelope.operation, idempotencyKey }) };
+    }
+    if (!sent) {
+      return { ok: true, data: undefined };
+    }
+
+    const call: RecordedCall = { ...sent, idempotencyKey };
+    const programmed = this.responses.get(sent.operation as keyof CDPTestResponses);
+    const result = await this.settle(sent.operation, async () =>
+      (programmed ? programmed(call) : respond?.(call)) as T
+    );
+    if (result.ok === false) {
+      result.error.idempotencyKey = idempotencyKey;
+      this.calls.push({ ...call, error: result.error });
+    } else {
+      this.calls.push(call);
+    }
+    await runAfterMiddleware(this.middlewares, sent, result, this.logger);
+    return result;
+  }
+
+  private async settle<T>(operation: CDPOperation, respond: () => Promise<T>): Promise<CDPResult<T>> {
+    const failure = this.failures.get(operation);
+    if (!failure || failure.remaining <= 0) {
+      return { ok: true, data: await respond() };
+    }
+    failure.remaining--;
+    const error = failure.error
+      ? toCDPError(failure.error, { operation })
+      : new CDPServerError("Simulated failure", { operation, status: 500 });
+    return { ok: false, error };
+  }
+
+  private unwrap<T>(result: CDPResult<T>): T | undefined {
+    if (result.ok === false) {
+      if (this.options.failOnException) {
+        throw result.error;
+      }
+      return undefined;
+    }
+    return result.data;
+  }
+}
+
+interface MatcherResult {
+  pass: boolean;
+  message: () => string;
+}
+
+/**
+ * Recursive partial match: every key in `expected` must match in `actual`.
+ * Jest asymmetric matchers (expect.any, expect.stringContaining, ...) are supported.
+ */
+function matchesPartial(actual: any, expected: any): boolean {
+  if (expected && typeof expected.asymmetricMatch === "function") {
+    return expected.asymmetricMatch(actual);
+  }
+  if (Array.isArray(expected)) {
+    return (
+      Array.isArray(actual) &&
+      actual.length === expected.length &&
+      expected.every((item, index) => matchesPartial(actual[index], item))
+    );
+  }
+  if (expected !== null && typeof expected === "object") {
+    return (
+      actual !== null &&
+      typeof actual === "object" &&
+      Object.keys(expected).every((key) => matchesPartial(actual[key], expected[key]))
+    );
+  }
+  return Object.is(actual, expected);
+}
+
+function recordedCalls(received: unknown, matcher: string): RecordedCall[] {
+  if (!(received instanceof CDPTestClient)) {
+    throw new Error(`${matcher} must be called on a CDPTestClient`);
+  }
+  return received.calls;
+}
+
+function matchCalls(
+  received: unknown,
+  matcher: string,
+  operation: MiddlewareOperation,
+  predicate: (call: RecordedCall) => boolean,
+  expectation: string
+): MatcherResult {
+  const calls = recordedCalls(received, matcher).filter((call) => call.operation === operation);
+  // Calls that failed (programmed failures) were never delivered
+  const pass = calls.some((call) => !call.error && predicate(call));
+  const recorded = calls.length
+    ? calls
+      .map((call) => {
+        const summary = JSON.stringify({ identifier: call.identifier, payload: call.payload });
+        return `  ${summary}${call.error ? ` (failed: ${call.error.message})` : ""}`;
+      })
+      .join("\n")
+    : "  (none)";
+  return {
+    pass,
+    message: () =>
+      `expected the client ${pass ? "not " : ""}to have ${expectation}\n${operation} calls recorded:\n${recorded}`,
+  };
+}
+
+/**
+ * Message fields of a send email request, whether it was built with `new SendEmailRequest()` or passed as an object
+ */
+function emailMessage(call: RecordedCall): Record<string, any> {
+  const payload = call.payload as any;
+  return payload?.message ?? payload;
+}
+
+/**
+ * Jest matchers for CDPTestClient. Register them with `expect.extend(cdpMatchers)`.
+ */
+export const cdpMatchers = {
+  toHaveIdentified(received: unknown, identifier: string, traits?: Record<string, any>): MatcherResult {
+    return matchCalls(
+      received,
+      "toHaveIdentified",
+      "identify",
+      (call) =>
+        call.identifier === identifier &&
+        (traits === undefined || matchesPartial((call.payload as any).properties, traits)),
+      `identified ${identifier}${traits ? ` with ${JSON.stringify(traits)}` : ""}`
+    );
+  },
+
+  toHaveTracked(
+    received: unknown,
+    identifier: string,
+    eventName: string,
+    properties?: Record<string, any>
+  ): MatcherResult {
+    return matchCalls(
+      received,
+      "toHaveTracked",
+      "track",
+      (call) =>
+        call.identifier === identifier &&
+        (call.payload as any).eventName === eventName &&
+        (properties === undefined || matchesPartial((call.payload as any).properties, properties)),
+      `tracked "${eventName}" for ${identifier}${properties ? ` with ${JSON.stringify(properties)}` : ""}`
+    );
+  },
+
+  toHaveRegisteredDevice(
+    received: unknown,
+    identifier: string,
+    device?: Partial<DeviceRegistrationParameters>
+  ): MatcherResult {
+    return matchCalls(
+      received,
+      "toHaveRegisteredDevice",
+      "registerDevice",
+      (call) => call.identifier === identifier && (device === undefined || matchesPartial(call.payload, device)),
+      `registered a device for ${identifier}`
+    );
+  },
+
+  toHaveSentEmail(received: unknown, message: Record<string, any> = {}): MatcherResult {
+    return matchCalls(
+      received,
+      "toHaveSentEmail",
+      "sendEmail",
+      (call) => matchesPartial(emailMessage(call), message),
+      `sent an email matching ${JSON.stringify(message)}`
+    );
+  },
+
+  toHaveSentPush(received: unknown, request: Partial<SendPushRequest> = {}): MatcherResult {
+    return matchCalls(
+      received,
+      "toHaveSentPush",
+      "sendPush",
+      (call) => matchesPartial(call.payload, request),
+      `sent a push matching ${JSON.stringify(request)}`
+    );
+  },
+
+  toHaveSentSms(received: unknown, request: Partial<SendSmsRequest> = {}): MatcherResult {
+    return matchCalls(
+      received,
+      "toHaveSentSms",
+      "sendSms",
+      (call) => matchesPartial(call.payload, request),
+      `sent an SMS matching ${JSON.stringify(request)}`
+    );
+  },
+};
+
+/**
+ * Type declarations for the matchers. Add them to Jest's Matchers interface, e.g.
+ * `declare module "expect" { interface Matchers<R> extends CDPMatchers<R> {} }`
+ */
+export interface CDPMatchers<R = unknown> {
+  toHaveIdentified(identifier: string, traits?: Record<string, any>): R;
+  toHaveTracked(identifier: string, eventName: string, properties?: Record<string, any>): R;
+  toHaveRegisteredDevice(identifier: string, device?: Partial<DeviceRegistrationParameters>): R;
+  toHaveSentEmail(message?: Record<string, any>): R;
+  toHaveSentPush(request?: Partial<SendPushRequest>): R;
+  toHaveSentSms(request?: Partial<SendSmsRequest>): R;
+}
@@ -0,0 +1,200 @@
+import { JSONSchema, TrackingPlan, TrackingPlanMode } from "./types";
+
+export interface SchemaViolation {
+  /** Dot-separated path of the offending value, e.g. "properties.items.0.price" */
+  path: string;
+  /** JSON Schema keyword that failed, e.g. "type" or "required" ("event" for unknown events) */
+  keyword: string;
+  message: string;
+}
+
+const EMAIL_FORMAT = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const DATE_TIME_FORMAT = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?(Z|[+-]\d{2}:\d{2})$/i;
+const DATE_FORMAT = /^\d{4}-\d{2}-\d{2}$/;
+const URI_FORMAT = /^[a-z][a-z0-9+.-]*:\S+$/i;
+
+function typeOf(value: unknown): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  if (typeof value === "number" && Number.isInteger(value)) return "integer";
+  return typeof value;
+}
+
+function matchesType(value: unknown, type: string): boolean {
+  const actual = typeOf(value);
+  return actual === type || (type === "number" && actual === "integer");
+}
+
+function preview(value: unknown): string {
+  const text = JSON.stringify(value);
+  return text !== undefined && text.length <= 40 ? text : typeOf(value);
+}
+
+function isEqual(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/**
+ * Validates a value against a JSON Schema. Supports the keywords listed on `JSONSchema`;
+ * anything else is ignored.
+ */
+export function validateSchema(schema: JSONSchema, value: unknown, path = ""): SchemaViolation[] {
+  if (schema === true || schema === undefined) {
+    return [];
+  }
+  if (schema === false) {
+    return [{ path, keyword: "false", message: "is not allowed" }];
+  }
+
+  const violations: SchemaViolation[] = [];
+  const fail = (keyword: string, message: string, at = path) =>
+    violations.push({ path: at, keyword, message });
+
+  if (schema.type !== undefined) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some((type) => matchesType(value, type))) {
+      fail("type", `must be ${types.join(" or ")} (got ${typeOf(value)})`);
+      return violations;
+    }
+  }
+  if (schema.const !== undefined && !isEqual(schema.const, value)) {
+    fail("const", `must be ${preview(schema.const)} (got ${preview(value)})`);
+  }
+  if (schema.enum && !schema.enum.some((option) => isEqual(option, value))) {
+    fail("enum", `must be one of ${schema.enum.map(preview).join(", ")} (got ${preview(value)})`);
+  }
+
+  if (typeof value === "string") {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      fail("minLength", `must be at least ${schema.minLength} characters long`);
+    }
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+      fail("maxLength", `must be at most ${schema.maxLength} characters long`);
+    }
+    if (schema.pattern !== undefined && !new RegExp(schema.pattern).test(value)) {
+      fail("pattern", `must match ${schema.pattern}`);
+    }
+    if (schema.format !== undefined) {
+      const format = {
+        email: EMAIL_FORMAT,
+        "date-time": DATE_TIME_FORMAT,
+        date: DATE_FORMAT,
+        uri: URI_FORMAT,
+      }[schema.format];
+      if (format && !format.test(value)) {
+        fail("format", `must be a valid ${schema.format}`);
+      }
+    }
+  }
+
+  if (typeof value === "number") {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      fail("minimum", `must be >= ${schema.minimum} (got ${value})`);
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      fail("maximum", `must be <= ${schema.maximum} (got ${value})`);
+    }
+    if (schema.exclusiveMinimum !== undefined && value <= schema.exclusiveMinimum) {
+      fail("exclusiveMinimum", `must be > ${schema.exclusiveMinimum} (got ${value})`);
+    }
+    if (schema.exclusiveMaximum !== undefined && value >= schema.exclusiveMaximum) {
+      fail("exclusiveMaximum", `must be < ${schema.exclusiveMaximum} (got ${value})`);
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      fail("minItems", `must contain at least ${schema.minItems} item(s)`);
+    }
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+      fail("maxItems", `must contain at most ${schema.maxItems} item(s)`);
+    }
+    if (schema.items !== undefined) {
+      value.forEach((item, index) => {
+        violations.push(...validateSchema(schema.items!, item, join(path, String(index))));
+      });
+    }
+  }
+
+  if (typeOf(value) === "object") {
+    const object = value as Record<string, unknown>;
+    for (const key of schema.required || []) {
+      if (!(key in object) || object[key] === undefined) {
+        fail("required", "is required", join(path, key));
+      }
+    }
+    for (const [key, item] of Object.entries(object)) {
+      if (item === undefined) continue;
+      const propertySchema = schema.properties?.[key];
+      if (propertySchema !== undefined) {
+        violations.push(...validateSchema(propertySchema, item, join(path, key)));
+      } else if (schema.additionalProperties === false) {
+        fail("additionalProperties", "is not declared in the tracking plan", join(path, key));
+      } else if (typeof schema.additionalProperties === "object") {
+        violations.push(...validateSchema(schema.additionalProperties, item, join(path, key)));
+      }
+    }
+  }
+
+  if (schema.allOf) {
+    schema.allOf.forEach((sub) => violations.push(...validateSchema(sub, value, path)));
+  }
+  if (schema.anyOf && !schema.anyOf.some((sub) => validateSchema(sub, value, path).length === 0)) {
+    fail("anyOf", "must match at least one of the allowed schemas");
+  }
+  if (schema.oneOf) {
+    const matches = schema.oneOf.filter((sub) => validateSchema(sub, value, path).length === 0).length;
+    if (matches !== 1) {
+      fail("oneOf", `must match exactly one of the allowed schemas (matched ${matches})`);
+    }
+  }
+  if (schema.not !== undefined && validateSchema(schema.not, value, path).length === 0) {
+    fail("not", "must not match the disallowed schema");
+  }
+
+  return violations;
+}
+
+function join(path: string, key: string): string {
+  return path ? `${path}.${key}` : key;
+}
+
+/**
+ * Readable report of all violations, e.g. `properties.amount must be number (got string); properties.currency is required`
+ */
+export function formatViolations(violations: SchemaViolation[]): string {
+  return violations
+    .map((violation) => (violation.path ? `${violation.path} ${violation.message}` : violation.message))
+    .join("; ");
+}
+
+/**
+ * Checks identify traits and track events against a tracking plan
+ */
+export class TrackingPlanValidator {
+  constructor(private readonly plan: TrackingPlan) {}
+
+  get mode(): TrackingPlanMode {
+    return this.plan.mode || "warn";
+  }
+
+  checkIdentify(traits: Record<string, any>): SchemaViolation[] {
+    if (this.mode === "off" || this.plan.identify === undefined) {
+      return [];
+    }
+    return validateSchema(this.plan.identify, traits, "traits");
+  }
+
+  checkTrack(eventName: string, properties: Record<string, any>): SchemaViolation[] {
+    if (this.mode === "off") {
+      return [];
+    }
+    const schema = this.plan.events?.[eventName];
+    if (schema === undefined) {
+      return this.plan.rejectUnknownEvents
+        ? [{ path: "", keyword: "event", message: `event "${eventName}" is not in the tracking plan` }]
+        : [];
+    }
+    return validateSchema(schema, properties, "properties");
+  }
+}
@@ -1,3 +1,6 @@
+import type { CDPError } from "./errors";
+import type { Destination } from "./destinations";
+
 export interface CDPConfig {
     // Your OpenCDP platform config
     /**
@@ -36,6 +39,11 @@ export interface CDPConfig {
         siteId: string;
         apiKey: string;
         region?: 'us' | 'eu';
+        /**
+         * Customer.io object type groups are written as (`group` and `identifyGroup`).
+         * Default: "1", the first object type of the workspace.
+         */
+        objectTypeId?: string;
     };
 
     // General config
@@ -57,8 +65,508 @@ export interface CDPConfig {
      * When true, validation and request failures will throw so callers can catch them.
      */
     failOnException?: boolean;
+    /**
+     * Optional: Buffer identify and track calls in memory and send them in batches.
+     * Default: disabled. Each call still resolves (or rejects) once its batch is delivered.
+     */
+    batching?: BatchConfig;
+    /**
+     * Optional: Persist identify, track and registerDevice calls to disk when every gateway is unreachable,
+     * and replay them in order once a gateway recovers.
+     * Default: disabled.
+     */
+    offlineQueue?: OfflineQueueConfig;
+    /**
+     * Optional: Retry transient failures (network errors, 408, 429 and 5xx) against the same gateway
+     * before failing over to the next one.
+     * Default: a single attempt per gateway.
+     */
+    retry?: RetryConfig;
+    /**
+     * Optional: Per-gateway circuit breaker settings. Gateways whose circuit is open get no requests
+     * until they recover.
+     * Default: enabled, 5 consecutive failures, 30 second cool-down.
+     */
+    circuitBreaker?: CircuitBreakerConfig;
+    /**
+     * Optional: Drop, mask or hash personal data in identify/track properties before they are sent
+     * (to OpenCDP and Customer.io) and in everything written through the logger.
+     * Default: disabled.
+     */
+    pii?: PiiConfig;
+    /**
+     * Optional: Check identify traits and track events against a tracking plan before sending them.
+     * Default: disabled.
+     */
+    trackingPlan?: TrackingPlan;
+    /**
+     * Optional: Run validation, payload building, middleware and the destination mapping for every call,
+     * but send nothing. Each call logs and returns a DryRunReport instead. Can be set per call as well.
+     * Default: false.
+     */
+    dryRun?: boolean;
+    /**
+     * Optional: Additional places to write identify, track and registerDevice calls to, alongside
+     * OpenCDP (and Customer.io when `sendToCustomerIo` is on).
+     */
+    destinations?: Destination[];
+}
+
+/**
+ * - off: the plan is not checked
+ * - warn: violations are logged and the call is sent anyway
+ * - strict: calls with violations are rejected with a CDPTrackingPlanError
+ */
+export type TrackingPlanMode = 'off' | 'warn' | 'strict';
+
+export interface TrackingPlan {
+    /**
+     * Default: 'warn'.
+     */
+    mode?: TrackingPlanMode;
+    /**
+     * JSON Schema for the properties of each event, keyed by event name.
+     */
+    events?: Record<string, JSONSchema>;
+    /**
+     * JSON Schema for identify traits.
+     */
+    identify?: JSONSchema;
+    /**
+     * Treat events that are not listed in `events` as violations.
+     * Default: false.
+     */
+    rejectUnknownEvents?: boolean;
 }
 
+/**
+ * The subset of JSON Schema understood by the tracking plan. Other keywords are ignored.
+ */
+export type JSONSchema = boolean | {
+    type?: JSONSchemaType | JSONSchemaType[];
+    enum?: unknown[];
+    const?: unknown;
+    properties?: Record<string, JSONSchema>;
+    required?: string[];
+    additionalProperties?: JSONSchema;
+    items?: JSONSchema;
+    minItems?: number;
+    maxItems?: number;
+    minLength?: number;
+    maxLength?: number;
+    pattern?: string;
+    format?: 'email' | 'date-time' | 'date' | 'uri' | string;
+    minimum?: number;
+    maximum?: number;
+    exclusiveMinimum?: number;
+    exclusiveMaximum?: number;
+    allOf?: JSONSchema[];
+    anyOf?: JSONSchema[];
+    oneOf?: JSONSchema[];
+    not?: JSONSchema;
+    description?: string;
+};
+
+export type JSONSchemaType = 'string' | 'number' | 'integer' | 'boolean' | 'object' | 'array' | 'null';
+
+export type PiiAction = 'drop' | 'mask' | 'hash';
+
+export interface PiiRule {
+    /**
+     * Property path the rule applies to, e.g. 'email', 'address.street' or 'children.*.name'
+     * (`*` matches any single key or array index), or a RegExp tested against the dot-separated path.
+     */
+    path?: string | RegExp;
+    /**
+     * Pattern whose matches are rewritten inside string values and log messages, e.g. email addresses.
+     */
+    pattern?: RegExp;
+    /**
+     * drop: remove the property (or matched text), mask: replace it with `mask`,
+     * hash: replace it with its SHA-256 hex digest.
+     */
+    action: PiiAction;
+}
+
+export interface PiiConfig {
+    rules: PiiRule[];
+    /**
+     * Replacement used by the mask action.
+     * Default: '[REDACTED]'.
+     */
+    mask?: string;
+    /**
+     * Prepended to values before hashing, so hashes cannot be reversed with a lookup table.
+     * Default: none.
+     */
+    hashSalt?: string;
+    /**
+     * Set to false to redact payloads but leave log output untouched.
+     * Default: true.
+     */
+    redactLogs?: boolean;
+}
+
+export interface CircuitBreakerConfig {
+    /**
+     * Set to false to keep the configured gateway order regardless of health.
+     * Default: true.
+     */
+    enabled?: boolean;
+    /**
+     * Consecutive retryable failures that open the circuit for a gateway.
+     * Default: 5.
+     */
+    failureThreshold?: number;
+    /**
+     * Time in milliseconds an open circuit waits before letting a probe request through.
+     * Default: 30000.
+     */
+    cooldownMs?: number;
+    /**
+     * Probe requests allowed at the same time while half-open.
+     * Default: 1.
+     */
+    halfOpenMaxRequests?: number;
+}
+
+export type CircuitState = 'closed' | 'open' | 'half_open';
+
+export interface GatewayStatus {
+    /** Gateway base URL */
+    url: string;
+    state: CircuitState;
+    consecutiveFailures: number;
+    /** Time of the last failed request (ms since epoch) */
+    lastFailureAt?: number;
+    /** Time of the last successful request (ms since epoch) */
+    lastSuccessAt?: number;
+    /** Time the circuit was opened (ms since epoch) */
+    openedAt?: number;
+    /** Time an open circuit lets the next probe through (ms since epoch) */
+    nextAttemptAt?: number;
+    /** True for the gateway the next request is sent to first */
+    active: boolean;
+}
+
+/**
+ * Names of the SDK operations, used for per-operation settings and reporting
+ */
+export type CDPOperation =
+    | 'ping'
+    | 'identify'
+    | 'track'
+    | 'trackAnonymous'
+    | 'alias'
+    | 'group'
+    | 'identifyGroup'
+    | 'addToSegment'
+    | 'removeFromSegment'
+    | 'getSubscriptionPreferences'
+    | 'updateSubscriptionPreferences'
+    | 'unsubscribe'
+    | 'resubscribe'
+    | 'registerDevice'
+    | 'suppress'
+    | 'unsuppress'
+    | 'mergePersons'
+    | 'unsetAttributes'
+    | 'unregisterDevice'
+    | 'updateDeviceToken'
+    | 'sendEmail'
+    | 'sendPush'
+    | 'sendSms'
+    | 'batch';
+
+export interface RetryPolicy {
+    /**
+     * Total attempts per gateway, including the first one.
+     * Default: 1 (no retries).
+     */
+    maxAttempts?: number;
+    /**
+     * Backoff before the first retry in milliseconds. Doubles on every further retry.
+     * Default: 200.
+     */
+    baseDelayMs?: number;
+    /**
+     * Upper bound for a single backoff in milliseconds.
+     * Default: 10000.
+     */
+    maxDelayMs?: number;
+    /**
+     * Use full jitter (a random delay between 0 and the computed backoff).
+     * Default: true.
+     */
+    jitter?: boolean;
+    /**
+     * Wait as long as the gateway's Retry-After header asks. When that is longer than maxDelayMs
+     * the SDK fails over to the next gateway instead of waiting.
+     * Default: true.
+     */
+    respectRetryAfter?: boolean;
+}
+
+export interface RetryConfig extends RetryPolicy {
+    /**
+     * Per-operation overrides, e.g. fewer attempts for sendEmail than for track.
+     */
+    operations?: Partial<Record<CDPOperation, RetryPolicy>>;
+}
+
+export interface OfflineQueueConfig {
+    /**
+     * Turns the offline queue on.
+     */
+    enabled?: boolean;
+    /**
+     * Directory the queue file is written to. Created if it does not exist.
+     */
+    directory: string;
+    /**
+     * Maximum number of queued calls. New calls are dropped (with a warning) once reached.
+     * Default: 10000.
+     */
+    maxEntries?: number;
+    /**
+     * Maximum size of the queue file in bytes. New calls are dropped (with a warning) once reached.
+     * Default: 52428800 (50 MB).
+     */
+    maxBytes?: number;
+    /**
+     * How often, in milliseconds, the SDK retries queued calls in the background.
+     * Queued calls are also replayed right after any successful request.
+     * Default: 30000.
+     */
+    replayIntervalMs?: number;
+}
+
+export interface OfflineQueueStats {
+    /** Calls currently waiting in the queue */
+    pending: number;
+    /** Size of the queue file in bytes */
+    bytes: number;
+    /** Calls dropped because the queue was full or could not be written */
+    dropped: number;
+    /** Unreadable lines skipped while reading the queue file */
+    corrupted: number;
+    /** Calls delivered from the queue since the client was created */
+    replayed: number;
+    /** Queued calls the gateway rejected with a non-retryable error (e.g. a 400) on replay, and dropped */
+    rejected: number;
+    /** Time of the last replay attempt (ms since epoch) */
+    lastReplayAt?: number;
+}
+
+export interface BatchConfig {
+    /**
+     * Turns batching on for identify and track.
+     */
+    enabled?: boolean;
+    /**
+     * Maximum number of calls per batch.
+     * Default: 100.
+     */
+    maxBatchSize?: number;
+    /**
+     * Maximum serialized size of a batch in bytes.
+     * Default: 524288 (512 KB).
+     */
+    maxBatchBytes?: number;
+    /**
+     * Maximum time in milliseconds a call waits in the buffer before it is flushed.
+     * Default: 1000.
+     */
+    flushIntervalMs?: number;
+}
+
+/**
+ * Per-call options accepted by every CDPClient operation
+ */
+export interface CallOptions {
+    /**
+     * Idempotency key for this call. Sent as the `Idempotency-Key` header on every attempt across all
+     * gateways so the backend can deduplicate. Generated (UUID v4) when not provided.
+     */
+    idempotencyKey?: string;
+    /**
+     * Overrides CDPConfig.dryRun for this call.
+     */
+    dryRun?: boolean;
+}
+
+/**
+ * Id of a subscription topic, as shown in the subscription center, e.g. "topic_1"
+ */
+export type TopicId = `topic_${number}`;
+
+/**
+ * Subscription state per topic: true when subscribed
+ */
+export type TopicPreferences = Partial<Record<TopicId, boolean>>;
+
+/**
+ * What a person is subscribed to, as returned by getSubscriptionPreferences
+ */
+export interface SubscriptionPreferences {
+    /** True when the person unsubscribed from everything, whatever their topic preferences */
+    unsubscribed: boolean;
+    topics: TopicPreferences;
+}
+
+/**
+ * Topics to change with updateSubscriptionPreferences. Topics left out keep their current state.
+ */
+export interface SubscriptionPreferencesUpdate {
+    topics: TopicPreferences;
+}
+
+/**
+ * Options of addToSegment and removeFromSegment
+ */
+export interface SegmentMembershipOptions extends CallOptions {
+    /**
+     * Identifiers sent per request. Larger lists are split into chunks of this size.
+     * Default: 1000.
+     */
+    chunkSize?: number;
+}
+
+/**
+ * Outcome of one chunk of a segment membership change. Each chunk is sent with the call's
+ * idempotency key suffixed with `:<index>`.
+ */
+export type SegmentChunkResult =
+    | {
+        index: number;
+        identifiers: string[];
+        idempotencyKey: string;
+        ok: true;
+        /** True when every gateway was down and the chunk was stored in the offline queue */
+        queued: boolean;
+        /** What the chunk would have sent, when dry-run is on */
+        dryRun?: DryRunReport;
+    }
+    | { index: number; identifiers: string[]; idempotencyKey: string; ok: false; error: CDPError };
+
+/**
+ * Returned by addToSegment and removeFromSegment. Failed chunks are reported here, not thrown.
+ */
+export type SegmentMembershipReport = {
+    operation: 'addToSegment' | 'removeFromSegment';
+    segmentId: string;
+    /** Identifiers in the call, without duplicates */
+    total: number;
+    /** Identifiers in chunks that were accepted (or queued) */
+    succeeded: number;
+    /** Identifiers in chunks that failed */
+    failed: number;
+    chunks: SegmentChunkResult[];
+};
+
+/**
+ * What a call would have sent, returned instead of sending when dry-run is on
+ */
+export type DryRunReport = {
+    dryRun: true;
+    operation: CDPOperation;
+    method: 'GET' | 'POST';
+    /** Full URL of the first attempt */
+    url: string;
+    path: string;
+    /** Gateway base URLs in the order they would be tried */
+    gatewayUrls: string[];
+    /** Request body, after validation, middleware and PII redaction */
+    payload?: unknown;
+    idempotencyKey?: string;
+    /** What each destination would have been sent, keyed by destination name (e.g. "customerIo") */
+    destinations?: Record<string, unknown>;
+};
+
+/**
+ * Outcome of writing a call to one destination
+ */
+export type DestinationOutcome =
+    | {
+        ok: true;
+        durationMs: number;
+        /** OpenCDP only: every gateway was down and the call was written to the offline queue for replay */
+        queued?: true;
+    }
+    | { ok: false; durationMs: number; error: CDPError };
+
+/**
+ * Returned by identify, track and registerDevice when the call was also written to other destinations:
+ * what happened at each one, keyed by destination name ("cdp", "customerIo", ...)
+ */
+export type DeliveryReport = {
+    operation: CDPOperation;
+    destinations: Record<string, DestinationOutcome>;
+};
+
+/**
+ * Running dual-write counters for a destination, compared with OpenCDP
+ */
+export type DivergenceStats = {
+    calls: number;
+    bothOk: number;
+    /** OpenCDP accepted the call, the destination did not */
+    cdpOkOnly: number;
+    /** The destination accepted the call, OpenCDP did not */
+    destinationOkOnly: number;
+    bothFailed: number;
+};
+
+/**
+ * Maps event names to the type of their properties, e.g.
+ * `{ order_completed: { orderId: string; total: number }; app_opened: Record<string, never> }`.
+ * Used as the `Events` type parameter of CDPClient.
+ */
+export type EventMap = Record<string, Record<string, any>>;
+
+/**
+ * Identify traits, used as the `Traits` type parameter of CDPClient
+ */
+export type TraitMap = Record<string, any>;
+
+/**
+ * Event names declared in an event map
+ */
+export type EventName<Events extends object> = Extract<keyof Events, string>;
+
+/**
+ * Standard properties of a page view (`client.page()`). Any other property is sent as is.
+ */
+export interface PageProperties {
+    /** Absolute URL of the page, e.g. "https://example.com/pricing?plan=pro" */
+    url?: string;
+    /** Path of the page, starting with "/" */
+    path?: string;
+    /** URL of the previous page, empty for direct visits */
+    referrer?: string;
+    /** Document title */
+    title?: string;
+    [key: string]: any;
+}
+
+/**
+ * Standard properties of a screen view (`client.screen()`). Any other property is sent as is.
+ */
+export interface ScreenProperties {
+    /** Version of the app showing the screen, e.g. "2.4.1" */
+    appVersion?: string;
+    /** Class of the screen, e.g. the view controller or activity name */
+    screenClass?: string;
+    [key: string]: any;
+}
+
+/**
+ * Outcome of an operation called through `client.results`
+ */
+export type CDPResult<T> =
+    | { ok: true; data: T }
+    | { ok: false; error: CDPError };
+
 export interface Logger {
     debug(message: string): void;
     error(message: string, context?: Record<string, any>): void;
@@ -156,6 +664,54 @@ export class SendEmailRequest {
     }
 }
 
+export interface DeviceRegistrationParameters {
+    deviceId: string;
+    name?: string;
+    platform: 'android' | 'ios' | 'web';
+    osVersion?: string;
+    model?: string;
+    fcmToken: string;
+    apnToken?: string;
+    appVersion?: string;
+    last_active_at?: string;
+    attributes?: Record<string, any>;
+}
+
+/**
+ * New push tokens for a registered device. At least one token is required.
+ */
+export interface DeviceTokenUpdate {
+    platform: 'android' | 'ios' | 'web';
+    fcmToken?: string;
+    apnToken?: string;
+}
+
+/**
+ * A device the push provider (FCM/APNs) reported as invalid, listed in `invalid_devices` of the sendPush response
+ */
+export interface InvalidPushDevice {
+    device_id: string;
+    token?: string;
+    /** e.g. "UNREGISTERED" (FCM) or "BadDeviceToken" (APNs) */
+    reason?: string;
+}
+
+/**
+ * Response of sendPush
+ */
+export type SendPushResponse = Record<string, any> & {
+    delivery_id?: string;
+    invalid_devices?: InvalidPushDevice[];
+};
+
+/**
+ * Outcome of unregisterInvalidDevices: the devices that were unregistered and those that could not be
+ */
+export type UnregisterInvalidDevicesResult = {
+    unregistered: string[];
+    failed: Array<{ deviceId: string; error: CDPError }>;
+};
+
 export interface SendPushRequest {
     // Required fields
     identifiers: {
@@ -0,0 +1,137 @@
+import { afterEach, beforeEach, describe, expect, it } from '@jest/globals';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { CDPClient } from './client';
+import { FakeGateway } from './fake_gateway';
+import {
+    signWebhookPayload,
+    verifyWebhookSignature,
+    WebhookDestination,
+    WebhookEnvelope
+} from './webhook_destination';
+
+interface Delivery {
+    body: string;
+    headers: http.IncomingHttpHeaders;
+}
+
+describe('WebhookDestination', () => {
+    let server: http.Server;
+    let url: string;
+    let deliveries: Delivery[];
+    let statuses: number[];
+
+    beforeEach(async () => {
+        deliveries = [];
+        statuses = [];
+        server = http.createServer((req, res) => {
+            let body = '';
+            req.on('data', (chunk) => (body += chunk));
+            req.on('end', () => {
+                deliveries.push({ body, headers: req.headers });
+                res.statusCode = statuses.shift() ?? 200;
+                res.end();
+            });
+        });
+        await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+        url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/hooks/cdp`;
+    });
+
+    afterEach(async () => {
+        await new Promise((resolve) => server.close(resolve));
+    });
+
+    it('should post a signed JSON envelope', async () => {
+        const webhook = new WebhookDestination({ url, secret: 'shh', headers: { 'X-Api-Key': 'fraud' } });
+
+        await webhook.track('user-123', 'purchase', { amount: 10 }, { idempotencyKey: 'purchase-1' });
+
+        expect(deliveries).toHaveLength(1);
+        const [{ body, headers }] = deliveries;
+        const envelope = JSON.parse(body) as WebhookEnvelope;
+        expect(envelope).toEqual({
+            id: 'purchase-1',
+            type: 'track',
+            timestamp: expect.stringMatching(/^\d{4}-\d{2}-\d{2}T/),
+            data: { identifier: 'user-123', eventName: 'purchase', properties: { amount: 10 } }
+        });
+        expect(headers['content-type']).toBe('application/json');
+        expect(headers['idempotency-key']).toBe('purchase-1');
+        expect(headers['x-api-key']).toBe('fraud');
+        expect(headers['x-cdp-signature']).toBe(signWebhookPayload(body, Number(headers['x-cdp-timestamp']), 'shh'));
+        expect(verifyWebhookSignature({
+            body,
+            signature: headers['x-cdp-signature'] as string,
+            timestamp: headers['x-cdp-timestamp'] as string,
+            secret: 'shh'
+        })).toBe(true);
+    });
+
+    it('should retry transient failures with the same id and give up on client errors', async () => {
+        const webhook = new WebhookDestination({ url, secret: 'shh', retry: { baseDelayMs: 1, jitter: false } });
+        statuses.push(503, 502);
+
+        await webhook.identify('user-123', { plan: 'pro' }, { idempotencyKey: 'identify-1' });
+        expect(deliveries.map((delivery) => JSON.parse(delivery.body).id)).toEqual(['identify-1', 'identify-1', 'identify-1']);
+
+        deliveries = [];
+        statuses.push(400);
+        await expect(
+            webhook.registerDevice('user-123', { deviceId: 'd1', platform: 'ios', fcmToken: 'token' }, { idempotencyKey: 'device-1' })
+        ).rejects.toMatchObject({ name: 'CDPValidationError', status: 400, operation: 'registerDevice', gatewayUrl: url });
+        expect(deliveries).toHaveLength(1);
+    });
+
+    it('should receive the same calls as OpenCDP', async () => {
+        const gateway = new FakeGateway();
+        await gateway.start();
+        const client = new CDPClient({
+            cdpApiKey: 'test-api-key',
+            cdpEndpoint: gateway.url,
+            cdpFallbackEndpoints: [],
+            destinations: [new WebhookDestination({ name: 'analytics', url, secret: 'shh' })]
+        });
+
+        const report = await client.identify('user-123', { plan: 'pro' });
+
+        expect(report).toMatchObject({ destinations: { cdp: { ok: true }, analytics: { ok: true } } });
+        expect(JSON.parse(deliveries[0].body).data).toEqual(gateway.requestsTo('identify')[0].body);
+        client.close();
+        await gateway.stop();
+    });
+
+    it('should describe the envelope in dry-run reports', async () => {
+        const client = new CDPClient({
+            cdpApiKey: 'test-api-key',
+            cdpFallbackEndpoints: [],
+            dryRun: true,
+            destinations: [new WebhookDestination({ name: 'fraud', url, secret: 'shh' })]
+        });
+
+        await expect(client.track('user-123', 'purchase', { amount: 10 })).resolves.toMatchObject({
+            destinations: {
+                fraud: {
+                    url,
+                    envelope: { type: 'track', data: { identifier: 'user-123', eventName: 'purchase', properties: { amount: 10 } } }
+                }
+            }
+        });
+        expect(deliveries).toHaveLength(0);
+        client.close();
+    });
+
+    describe('verifyWebhookSignature', () => {
+        const body = '{"id":"a"}';
+        const now = 1_700_000_000_000;
+        const timestamp = now / 1000;
+        const signature = signWebhookPayload(body, timestamp, 'shh');
+
+        it('should reject tampered bodies, wrong secrets and stale timestamps', () => {
+            expect(verifyWebhookSignature({ body, signature, timestamp, secret: 'shh', now })).toBe(true);
+            expect(verifyWebhookSignature({ body: '{"id":"b"}', signature, timestamp, secret: 'shh', now })).toBe(false);
+            expect(verifyWebhookSignature({ body, signature, timestamp, secret: 'other', now })).toBe(false);
+            expect(verifyWebhookSignature({ body, signature, timestamp, secret: 'shh', now: now + 301_000 })).toBe(false);
+            expect(verifyWebhookSignature({ body, signature: undefined, timestamp, secret: 'shh', now })).toBe(false);
+        });
+    });
+});
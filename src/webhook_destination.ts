@@ -0,0 +1,219 @@
+import axios, { AxiosInstance } from "axios";
+import pLimit from "p-limit";
+import { createHmac, timingSafeEqual } from "crypto";
+import { Destination, DestinationCall, DestinationContext, DestinationOperation } from "./destinations";
+import { isRetryableError, toCDPError } from "./errors";
+import { resolveRetryPolicy, retryDelay, sleep } from "./retry";
+import { DeviceRegistrationParameters, RetryConfig } from "./types";
+
+export const WEBHOOK_SIGNATURE_HEADER = "X-CDP-Signature";
+export const WEBHOOK_TIMESTAMP_HEADER = "X-CDP-Timestamp";
+export const DEFAULT_WEBHOOK_TOLERANCE_SECONDS = 300;
+
+const DEFAULT_WEBHOOK_CONCURRENCY = 5;
+const DEFAULT_WEBHOOK_MAX_ATTEMPTS = 3;
+
+export interface WebhookDestinationConfig {
+  /**
+   * Key of the destination in delivery reports and dual-write stats.
+   * Give each webhook its own name when forwarding to several endpoints. Default: "webhook".
+   */
+  name?: string;
+  url: string;
+  /** Shared secret the HMAC-SHA256 signature is computed with */
+  secret: string;
+  /** Extra headers sent with every request, e.g. an API key for the receiving service */
+  headers?: Record<string, string>;
+  /**
+   * Request timeout in milliseconds.
+   * Default: 10000.
+   */
+  timeout?: number;
+  /**
+   * Maximum number of requests in flight to this endpoint.
+   * Default: 5.
+   */
+  maxConcurrentRequests?: number;
+  /**
+   * Retry policy for this endpoint, independent of the gateway retry config.
+   * Default: 3 attempts with exponential backoff.
+   */
+  retry?: RetryConfig;
+}
+
+/**
+ * Body of every webhook request. `data` is the same body OpenCDP receives for the call.
+ */
+export type WebhookEnvelope =
+  | WebhookEnvelopeOf<"identify", { identifier: string; properties: Record<string, any> }>
+  | WebhookEnvelopeOf<"track", { identifier: string; eventName: string; properties: Record<string, any> }>
+  | WebhookEnvelopeOf<"registerDevice", { identifier: string } & DeviceRegistrationParameters>;
+
+type WebhookEnvelopeOf<T extends DestinationOperation, D> = {
+  /** Idempotency key of the call, the same on every retry. Use it to deduplicate. */
+  id: string;
+  type: T;
+  /** When the call was made, ISO 8601 */
+  timestamp: string;
+  data: D;
+};
+
+/**
+ * Calls forwarded by WebhookDestination
+ */
+type WebhookCall = Extract<DestinationCall, { operation: WebhookEnvelope["type"] }>;
+
+function envelopeOf(call: WebhookCall, context: DestinationContext): WebhookEnvelope {
+  const base = { id: context.idempotencyKey, timestamp: new Date().toISOString() };
+  switch (call.operation) {
+    case "identify": {
+      const [identifier, properties] = call.args;
+      return { ...base, type: "identify", data: { identifier, properties } };
+    }
+    case "track": {
+      const [identifier, eventName, properties] = call.args;
+      return { ...base, type: "track", data: { identifier, eventName, properties } };
+    }
+    case "registerDevice": {
+      const [identifier, device] = call.args;
+      return { ...base, type: "registerDevice", data: { identifier, ...device } };
+    }
+  }
+}
+
+/**
+ * HMAC-SHA256 signature of a webhook request, as sent in the X-CDP-Signature header:
+ * `sha256=` followed by the hex digest of `<timestamp>.<raw body>`.
+ */
+export function signWebhookPayload(body: string, timestamp: number, secret: string): string {
+  return `sha256=${createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex")}`;
+}
+
+export interface VerifyWebhookOptions {
+  /** Raw request body, exactly as received */
+  body: string;
+  /** Value of the X-CDP-Signature header */
+  signature: string | undefined;
+  /** Value of the X-CDP-Timestamp header (unix seconds) */
+  timestamp: string | number | undefined;
+  secret: string;
+  /**
+   * Oldest (or furthest in the future) timestamp accepted, in seconds.
+   * Default: 300.
+   */
+  toleranceSeconds?: number;
+  /** Current time in milliseconds, for tests */
+  now?: number;
+}
+
+/**
+ * Checks a webhook request on the receiving side: the signature must match and the timestamp
+ * must be within the tolerance, so captured requests cannot be replayed later.
+ */
+export function verifyWebhookSignature(options: VerifyWebhookOptions): boolean {
+  const timestamp = Number(options.timestamp);
+  if (!options.signature || !Number.isFinite(timestamp)) {
+    return false;
+  }
+  const tolerance = options.toleranceSeconds ?? DEFAULT_WEBHOOK_TOLERANCE_SECONDS;
+  const now = Math.floor((options.now ?? Date.now()) / 1000);
+  if (Math.abs(now - timestamp) > tolerance) {
+    return false;
+  }
+  const expected = Buffer.from(signWebhookPayload(options.body, timestamp, options.secret));
+  const actual = Buffer.from(options.signature);
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+/**
+ * Forwards identify, track and registerDevice calls to an HTTP endpoint as signed JSON envelopes.
+ * Every attempt is signed with a fresh timestamp; the envelope `id` stays the same across retries.
+ */
+export class WebhookDestination implements Destination {
+  readonly name: string;
+  private readonly axiosInstance: AxiosInstance;
+  private readonly limit: ReturnType<typeof pLimit>;
+
+  constructor(private readonly config: WebhookDestinationConfig) {
+    this.name = config.name || "webhook";
+    this.axiosInstance = axios.create({ timeout: config.timeout || 10000 });
+    this.limit = pLimit(Math.max(1, config.maxConcurrentRequests || DEFAULT_WEBHOOK_CONCURRENCY));
+  }
+
+  identify(identifier: string, traits: Record<string, any>, context: DestinationContext): Promise<void> {
+    return this.send(envelopeOf({ operation: "identify", args: [identifier, traits] }, context));
+  }
+
+  track(
+    identifier: string,
+    eventName: string,
+    properties: Record<string, any>,
+    context: DestinationContext
+  ): Promise<void> {
+    return this.send(envelopeOf({ operation: "track", args: [identifier, eventName, properties] }, context));
+  }
+
+  registerDevice(
+    identifier: string,
+    device: DeviceRegistrationParameters,
+    context: DestinationContext
+  ): Promise<void> {
+    return this.send(envelopeOf({ operation: "registerDevice", args: [identifier, device] }, context));
+  }
+
+  /**
+   * The endpoint and envelope a call would be posted with. `id` and `timestamp` are filled in when sending.
+   */
+  preview(call: DestinationCall): { url: string; envelope: Omit<WebhookEnvelope, "id" | "timestamp"> } {
+    const { type, data } = envelopeOf(call as WebhookCall, { idempotencyKey: "" });
+    return { url: this.config.url, envelope: { type, data } as Omit<WebhookEnvelope, "id" | "timestamp"> };
+  }
+
+  /**
+   * Posts the envelope, retrying transient failures according to the webhook's own retry policy.
+   * Throws a CDPError once the endpoint rejects the request or the attempts run out.
+   */
+  private send(envelope: WebhookEnvelope): Promise<void> {
+    const body = JSON.stringify(envelope);
+    const policy = resolveRetryPolicy(
+      { maxAttempts: DEFAULT_WEBHOOK_MAX_ATTEMPTS, ...this.config.retry },
+      envelope.type
+    );
+    return this.limit(async () => {
+      for (let attempt = 1; ; attempt++) {
+        const timestamp = Math.floor(Date.now() / 1000);
+        try {
+          const response = await this.axiosInstance.post(this.config.url, body, {
+            headers: {
+              ...this.config.headers,
+              "Content-Type": "application/json",
+              "Idempotency-Key": envelope.id,
+              [WEBHOOK_TIMESTAMP_HEADER]: String(timestamp),
+              [WEBHOOK_SIGNATURE_HEADER]: signWebhookPayload(body, timestamp, this.config.secret),
+            },
+            // The body is signed as it is, so it must be sent without re-serialising
+            transformRequest: [(data) => data],
+          });
+          if (response.status >= 200 && response.status < 300) {
+            return;
+          }
+          throw Object.assign(new Error(`HTTP ${response.status}`), { response });
+        } catch (error) {
+          const cdpError = toCDPError(error, {
+            operation: envelope.type,
+            gatewayUrl: this.config.url,
+            idempotencyKey: envelope.id,
+          });
+          const delay =
+            attempt < policy.maxAttempts && isRetryableError(cdpError)
+              ? retryDelay(attempt, policy, error)
+              : undefined;
+          if (delay === undefined) {
+            throw cdpError;
+          }
+          await sleep(delay);
+        }
+      }
+    });
+  }
+}